@@ -21,4 +21,15 @@ export {
 
   // Basic config generation (no AI)
   generateBasicConfig,
+  expandAbstractTypes,
+  addTransitiveInvalidations,
+  type ConfigConversionOptions,
+
+  // Field-level policy resolution
+  estimateTrafficCoverage,
+  findFieldRule,
+  findTypeRule,
+  mostRestrictivePolicy,
+  resolveFieldPolicy,
+  resolveResponsePolicy,
 } from "./ai-config-generator/index.js";
@@ -4,18 +4,89 @@
 
 import type {
   AIConfigResponse,
+  ClassifiedTrait,
   ConfigPreferences,
   OrionCacheConfig,
   OrionCacheRule,
   AnalyzedSchema,
+  CacheScope,
+  EntityType,
+  InvalidationAnnotation,
+  OperationType,
 } from "../types.js";
 
+import {
+  findEmbeddingTypes,
+  findListedTypes,
+  splitTokens,
+  type EmbeddingOptions,
+} from "../analyzer.js";
+
+/**
+ * Options shared by the config converters
+ */
+export interface ConfigConversionOptions {
+  /**
+   * Also invalidate types that embed a mutated type (e.g. Post:* when a
+   * Comment is created, via Post.comments). `true` uses the default depth.
+   */
+  transitiveInvalidation?: boolean | EmbeddingOptions;
+
+  /**
+   * Basic config only: give volatile, user-specific and sensitive fields
+   * their own rules (e.g. "Product.price") instead of letting one field
+   * decide the policy of its whole type
+   */
+  fieldLevel?: boolean;
+}
+
+/**
+ * Heuristic policies, most restrictive first: sensitive, user-specific,
+ * real-time, volatile, stable
+ */
+const GROUP_POLICIES: Array<Omit<OrionCacheRule, "types">> = [
+  { scope: "private", maxAge: 60 },
+  { scope: "private", maxAge: 300, staleWhileRevalidate: 60 },
+  // Subscribed types are pushed to clients live; keep edge copies brief
+  { maxAge: 5 },
+  { maxAge: 60, staleWhileRevalidate: 30 },
+  { maxAge: 900, staleWhileRevalidate: 300, staleIfError: 3600 },
+];
+
+/**
+ * Volatile types with at least HOT_TYPE_SHARE of observed requests serve
+ * stale longer while revalidating, so popular data doesn't send a burst of
+ * requests to the origin every time it expires
+ */
+const HOT_VOLATILE_POLICY: Omit<OrionCacheRule, "types"> = {
+  maxAge: 60,
+  staleWhileRevalidate: 300,
+  staleIfError: 600,
+};
+const HOT_TYPE_SHARE = 0.1;
+
+/** Group index of each field trait */
+const FIELD_TRAIT_GROUPS: Array<[ClassifiedTrait, number]> = [
+  ["hasSensitiveFields", 0],
+  ["isUserSpecific", 1],
+  ["isVolatile", 3],
+];
+
+/** Mutation verbs that create instances, which no existing cache entry is keyed by */
+const CREATE_MUTATION_VERBS = ["create", "add", "insert"];
+
+/** Mutation verbs that remove instances from cached lists */
+const DELETE_MUTATION_VERBS = ["delete", "remove", "destroy"];
+
 /**
- * Converts AI response to Orion cache config format
+ * Converts AI response to Orion cache config format. With the analyzed
+ * schema, rules naming interfaces or unions are expanded to their members.
  */
 export function convertToOrionConfig(
   aiResponse: AIConfigResponse,
-  preferences?: ConfigPreferences
+  preferences?: ConfigPreferences,
+  schema?: AnalyzedSchema,
+  options: ConfigConversionOptions = {}
 ): OrionCacheConfig {
   // Determine default TTL based on preferences
   let defaultMaxAge = 300; // 5 minutes default
@@ -46,11 +117,14 @@ export function convertToOrionConfig(
     if (rule.passthrough) {
       orionRule.passthrough = true;
     }
+    if (rule.fields && rule.fields.length > 0) {
+      orionRule.fields = rule.fields;
+    }
 
     return orionRule;
   });
 
-  return {
+  const config: OrionCacheConfig = {
     version: "1.0",
     name: "orion",
     defaults: {
@@ -58,85 +132,159 @@ export function convertToOrionConfig(
       staleWhileRevalidate: 0,
       staleIfError: 0,
     },
-    rules,
+    rules: schema ? expandAbstractTypes(rules, schema) : rules,
     invalidations: aiResponse.invalidations,
   };
+
+  return schema && options.transitiveInvalidation
+    ? addTransitiveInvalidations(config, schema, embeddingOptions(options.transitiveInvalidation))
+    : config;
 }
 
 /**
  * Generates a basic cache configuration without AI.
  * Uses heuristics based on schema analysis.
  */
-export function generateBasicConfig(schema: AnalyzedSchema): OrionCacheConfig {
+export function generateBasicConfig(
+  schema: AnalyzedSchema,
+  options: ConfigConversionOptions = {}
+): OrionCacheConfig {
   const rules: OrionCacheRule[] = [];
 
   // Group entities by characteristics
   const volatileTypes: string[] = [];
   const userSpecificTypes: string[] = [];
   const sensitiveTypes: string[] = [];
+  const realtimeTypes: string[] = [];
   const stableTypes: string[] = [];
 
+  // @cacheControl hints are authoritative; group hinted types by policy
+  const hintedRules = new Map<string, OrionCacheRule>();
+
+  // List wrappers (connections, page objects) follow their node type
+  const listWrappers: EntityType[] = [];
+
+  const has = (entity: EntityType, trait: ClassifiedTrait) =>
+    options.fieldLevel ? hasTypeLevelTrait(entity, trait) : entity.characteristics[trait];
+
   for (const entity of schema.entities) {
     if (entity.characteristics.isRootType) continue;
 
-    if (entity.characteristics.hasSensitiveFields) {
+    const hint = entity.cacheControl;
+    if (hint && hint.maxAge !== null) {
+      const policy = `${hint.maxAge}:${hint.scope ?? ""}`;
+      const rule = hintedRules.get(policy) ?? hintRule(hint.maxAge, hint.scope);
+      rule.types.push(entity.name);
+      hintedRules.set(policy, rule);
+      continue;
+    }
+
+    if (entity.pagination) {
+      listWrappers.push(entity);
+      continue;
+    }
+
+    if (has(entity, "hasSensitiveFields")) {
       sensitiveTypes.push(entity.name);
-    } else if (entity.characteristics.isUserSpecific) {
+    } else if (has(entity, "isUserSpecific") || hint?.scope === "private") {
       userSpecificTypes.push(entity.name);
-    } else if (entity.characteristics.isVolatile) {
+    } else if (entity.characteristics.hasSubscription) {
+      realtimeTypes.push(entity.name);
+    } else if (has(entity, "isVolatile")) {
       volatileTypes.push(entity.name);
     } else {
       stableTypes.push(entity.name);
     }
   }
 
-  // Create rules for each group
-  if (sensitiveTypes.length > 0) {
-    rules.push({
-      types: sensitiveTypes,
-      scope: "private",
-      maxAge: 60,
-    });
-  }
+  // Abstract types join the most restrictive group of their members
+  const groups = [sensitiveTypes, userSpecificTypes, realtimeTypes, volatileTypes, stableTypes];
+  const hintedGroups = [...hintedRules.values()].map((rule) => rule.types);
 
-  if (userSpecificTypes.length > 0) {
-    rules.push({
-      types: userSpecificTypes,
-      scope: "private",
-      maxAge: 300,
-      staleWhileRevalidate: 60,
-    });
+  for (const wrapper of listWrappers) {
+    const nodeType = wrapper.pagination!.nodeType;
+    const group = [...hintedGroups, ...groups].find((g) => g.includes(nodeType));
+    if (group) {
+      group.push(wrapper.name);
+    } else if (has(wrapper, "hasSensitiveFields")) {
+      sensitiveTypes.push(wrapper.name);
+    } else if (has(wrapper, "isUserSpecific")) {
+      userSpecificTypes.push(wrapper.name);
+    } else if (wrapper.characteristics.hasSubscription) {
+      realtimeTypes.push(wrapper.name);
+    } else if (has(wrapper, "isVolatile")) {
+      volatileTypes.push(wrapper.name);
+    } else {
+      stableTypes.push(wrapper.name);
+    }
   }
 
-  if (volatileTypes.length > 0) {
-    rules.push({
-      types: volatileTypes,
-      maxAge: 60,
-      staleWhileRevalidate: 30,
-    });
+  for (const abstractType of schema.abstractTypes) {
+    const group = groups.find((g) => abstractType.possibleTypes.some((t) => g.includes(t)));
+    group?.push(abstractType.name);
   }
 
-  if (stableTypes.length > 0) {
-    rules.push({
-      types: stableTypes,
-      maxAge: 900,
-      staleWhileRevalidate: 300,
-      staleIfError: 3600,
+  // Create rules for each group
+  rules.push(...hintedRules.values());
+
+  // With traffic applied, the busiest types come first in each rule and hot
+  // volatile types get their own rule
+  const requestShare = new Map(schema.traffic?.types.map((t) => [t.type, t.share]));
+  const share = (type: string) => requestShare.get(type) ?? 0;
+
+  groups.forEach((types, index) => {
+    const sorted = [...types].sort((a, b) => share(b) - share(a));
+    const hot = index === 3 ? sorted.filter((type) => share(type) >= HOT_TYPE_SHARE) : [];
+    const rest = sorted.filter((type) => !hot.includes(type));
+    if (hot.length > 0) {
+      rules.push({ types: hot, ...HOT_VOLATILE_POLICY });
+    }
+    if (rest.length > 0) {
+      rules.push({ types: rest, ...GROUP_POLICIES[index] });
+    }
+  });
+
+  // Fields more restrictive than their type get their own rules
+  if (options.fieldLevel) {
+    const fieldGroups = groups.map((): string[] => []);
+    for (const entity of schema.entities) {
+      const typeGroup = groups.findIndex((g) => g.includes(entity.name));
+      if (typeGroup === -1) continue;
+
+      for (const field of entity.fields) {
+        const fieldGroup = Math.min(
+          ...FIELD_TRAIT_GROUPS.filter(([trait]) => field.traits?.includes(trait)).map(([, g]) => g)
+        );
+        if (fieldGroup < typeGroup) {
+          fieldGroups[fieldGroup]!.push(`${entity.name}.${field.name}`);
+        }
+      }
+    }
+
+    fieldGroups.forEach((fields, index) => {
+      if (fields.length > 0) {
+        rules.push({ types: [], fields, ...GROUP_POLICIES[index] });
+      }
     });
   }
 
   // Generate invalidation rules from mutations
   const invalidations: Record<string, string[]> = {};
 
+  const entitiesByName = new Map(schema.entities.map((e) => [e.name, e]));
+  const listedTypes = findListedTypes(schema.entities, schema.queries);
+
   for (const mutation of schema.mutations) {
     if (mutation.affectedTypes.length > 0) {
-      // Create pattern for each affected type
-      const patterns = mutation.affectedTypes.map((type) => `${type}:*`);
-      invalidations[mutation.name] = patterns;
+      // Create patterns for each affected type
+      const patterns = mutation.affectedTypes.flatMap((type) =>
+        invalidationPatterns(type, entitiesByName.get(type), mutation, listedTypes)
+      );
+      invalidations[mutation.name] = [...new Set(patterns)];
     }
   }
 
-  return {
+  const config: OrionCacheConfig = {
     version: "1.0",
     name: "orion",
     defaults: {
@@ -144,7 +292,147 @@ export function generateBasicConfig(schema: AnalyzedSchema): OrionCacheConfig {
       staleWhileRevalidate: 60,
       staleIfError: 0,
     },
-    rules,
+    rules: expandAbstractTypes(rules, schema),
     invalidations,
   };
+
+  return options.transitiveInvalidation
+    ? addTransitiveInvalidations(config, schema, embeddingOptions(options.transitiveInvalidation))
+    : config;
+}
+
+/**
+ * Add "Type:*" patterns for types embedding the types each mutation
+ * affects, and record the relationship path behind each in
+ * `invalidationPaths`. The traversal starts from the mutation's affected
+ * types in the analysis, not from its patterns, so list wrappers and
+ * related types don't widen it. Types the mutation already has a pattern
+ * for (other than "Type:list") are not widened to "Type:*".
+ */
+export function addTransitiveInvalidations(
+  config: OrionCacheConfig,
+  schema: AnalyzedSchema,
+  options: EmbeddingOptions = {}
+): OrionCacheConfig {
+  const invalidations: Record<string, string[]> = {};
+  const invalidationPaths: Record<string, InvalidationAnnotation[]> = {
+    ...config.invalidationPaths,
+  };
+  const mutations = new Map(schema.mutations.map((m) => [m.name, m]));
+
+  for (const [mutation, patterns] of Object.entries(config.invalidations)) {
+    const result = [...patterns];
+    const annotations = [...(invalidationPaths[mutation] ?? [])];
+    const targeted = new Set(
+      patterns.filter((p) => !p.endsWith(":list")).map((pattern) => pattern.split(":")[0]!)
+    );
+    const sources = mutations.get(mutation)?.affectedTypes ?? [];
+
+    for (const embedding of sources.length > 0 ? findEmbeddingTypes(schema, sources, options) : []) {
+      const pattern = `${embedding.type}:*`;
+      if (targeted.has(embedding.type) || result.includes(pattern)) continue;
+      result.push(pattern);
+      annotations.push({ pattern, source: embedding.source, path: embedding.path });
+    }
+
+    invalidations[mutation] = result;
+    if (annotations.length > 0) {
+      invalidationPaths[mutation] = annotations;
+    }
+  }
+
+  return { ...config, invalidations, invalidationPaths };
+}
+
+/**
+ * Whether a trait applies to the type as a whole, rather than only to
+ * fields that carry it on their own (which get field rules)
+ */
+function hasTypeLevelTrait(entity: EntityType, trait: ClassifiedTrait): boolean {
+  if (!entity.characteristics[trait]) return false;
+  const { evidence } = entity.characteristics.scores[trait];
+  return (
+    evidence.some((e) => e.field === null) ||
+    !entity.fields.some((field) => field.traits?.includes(trait))
+  );
+}
+
+function embeddingOptions(option: true | EmbeddingOptions): EmbeddingOptions {
+  return option === true ? {} : option;
+}
+
+/**
+ * Rule for a @cacheControl policy. maxAge 0 means the type must not be cached.
+ */
+function hintRule(maxAge: number, scope: CacheScope | null): OrionCacheRule {
+  if (maxAge === 0) {
+    return { types: [], passthrough: true };
+  }
+  return { types: [], maxAge, ...(scope === "private" ? { scope } : {}) };
+}
+
+/**
+ * Add the concrete members of interfaces and unions named in a rule to that
+ * rule. Members that are named explicitly in any rule keep their own rule.
+ */
+export function expandAbstractTypes(
+  rules: OrionCacheRule[],
+  schema: AnalyzedSchema
+): OrionCacheRule[] {
+  const abstractMap = new Map(schema.abstractTypes.map((a) => [a.name, a]));
+  const explicit = new Set(rules.flatMap((rule) => rule.types));
+  const expanded = new Set<string>();
+
+  return rules.map((rule) => {
+    const types = [...rule.types];
+    for (const typeName of rule.types) {
+      for (const member of abstractMap.get(typeName)?.possibleTypes ?? []) {
+        if (!explicit.has(member) && !expanded.has(member)) {
+          expanded.add(member);
+          types.push(member);
+        }
+      }
+    }
+    return { ...rule, types };
+  });
+}
+
+/**
+ * Invalidation patterns for a type affected by a mutation. Entities are
+ * targeted by their key (e.g. "Product:{sku}", "Item:{tenantId}:{code}").
+ * Creating or deleting instances changes the lists that contain them, so
+ * those mutations invalidate "Type:list" and the type's list wrappers (e.g.
+ * "PostConnection:*") instead of every cached instance. Creates of types
+ * that are never listed fall back to "Type:*".
+ */
+function invalidationPatterns(
+  typeName: string,
+  entity: EntityType | undefined,
+  mutation: OperationType,
+  listedTypes: Map<string, string[]>
+): string[] {
+  // The verb applies to the mutation's subject; related types (Cart in
+  // addItemToCart) are only updated
+  const verb = splitTokens(mutation.name)[0] ?? "";
+  const isRelated = mutation.affectedTypeDetails.some(
+    (affected) => affected.type === typeName && affected.reason === "related-name"
+  );
+  const isCreate = !isRelated && CREATE_MUTATION_VERBS.includes(verb);
+  const isDelete = !isRelated && DELETE_MUTATION_VERBS.includes(verb);
+
+  const wrappers = listedTypes.get(typeName);
+  const listPatterns = wrappers
+    ? [`${typeName}:list`, ...wrappers.map((wrapper) => `${wrapper}:*`)]
+    : [];
+
+  if (isCreate) {
+    return listPatterns.length > 0 ? listPatterns : [`${typeName}:*`];
+  }
+
+  const instancePattern =
+    entity && entity.keyFields.length > 0
+      ? `${typeName}:${entity.keyFields.map((field) => `{${field}}`).join(":")}`
+      : `${typeName}:*`;
+
+  return isDelete ? [instancePattern, ...listPatterns] : [instancePattern];
 }
@@ -11,12 +11,16 @@ import type {
   AIProviderConfig,
   OrionCacheConfig,
   AIConfigResponse,
+  ConfigValidationResult,
+  TrafficCoverage,
 } from "../types.js";
 
 import { callAIProvider } from "./providers.js";
 import { buildSystemPrompt, buildUserPrompt } from "./prompts.js";
 import { parseAIResponse } from "./response-parser.js";
-import { convertToOrionConfig } from "./config-converter.js";
+import { convertToOrionConfig, type ConfigConversionOptions } from "./config-converter.js";
+import { estimateTrafficCoverage } from "./policy.js";
+import { validateConfig } from "../config-validator/index.js";
 
 // Re-exports
 export {
@@ -25,15 +29,34 @@ export {
   getDefaultModel,
   getSupportedProviders,
 } from "./providers.js";
-export { generateBasicConfig } from "./config-converter.js";
+export {
+  generateBasicConfig,
+  expandAbstractTypes,
+  addTransitiveInvalidations,
+  type ConfigConversionOptions,
+} from "./config-converter.js";
+export {
+  estimateTrafficCoverage,
+  findFieldRule,
+  findTypeRule,
+  mostRestrictivePolicy,
+  resolveFieldPolicy,
+  resolveResponsePolicy,
+} from "./policy.js";
 
 /**
  * Options for generating cache configuration
  */
-export interface GenerateConfigOptions {
+export interface GenerateConfigOptions extends ConfigConversionOptions {
   schema: AnalyzedSchema;
   aiConfig: AIProviderConfig;
   preferences?: ConfigPreferences;
+
+  /**
+   * Approximate token budget for the schema sections of the prompt. Large
+   * schemas are then summarized by importance, with omissions listed.
+   */
+  summaryTokenBudget?: number;
 }
 
 /**
@@ -43,6 +66,13 @@ export interface GenerateConfigResult {
   success: boolean;
   config?: OrionCacheConfig;
   aiResponse?: AIConfigResponse;
+
+  /** Share of the observed traffic the config caches, when the schema has traffic applied */
+  traffic?: TrafficCoverage;
+
+  /** Structural and semantic diagnostics for the generated config */
+  validation?: ConfigValidationResult;
+
   error?: string;
 }
 
@@ -65,7 +95,11 @@ export async function generateCacheConfig(
 
     // Build prompts
     const systemPrompt = buildSystemPrompt();
-    const userPrompt = buildUserPrompt(schema, preferences);
+    const userPrompt = buildUserPrompt(
+      schema,
+      preferences,
+      options.summaryTokenBudget !== undefined ? { tokenBudget: options.summaryTokenBudget } : {}
+    );
 
     // Call AI provider
     const responseText = await callAIProvider(
@@ -79,12 +113,14 @@ export async function generateCacheConfig(
     const aiResponse = parseAIResponse(responseText);
 
     // Convert to Orion config format
-    const config = convertToOrionConfig(aiResponse, preferences);
+    const config = convertToOrionConfig(aiResponse, preferences, schema, options);
 
     return {
       success: true,
       config,
       aiResponse,
+      validation: validateConfig(config, schema),
+      ...(schema.traffic && { traffic: estimateTrafficCoverage(config, schema.traffic) }),
     };
   } catch (error) {
     return {
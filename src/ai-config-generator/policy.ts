@@ -0,0 +1,127 @@
+/**
+ * Cache policy resolution
+ *
+ * Resolves the policy an Orion config gives a single field, and the
+ * effective policy of a response selecting several fields: the most
+ * restrictive of them.
+ */
+
+import type {
+  CachePolicy,
+  OrionCacheConfig,
+  OrionCacheRule,
+  TrafficCoverage,
+  TrafficProfile,
+} from "../types.js";
+
+/**
+ * Policy for `Type.field`: the first rule selecting the field, else the
+ * first rule for the type, else the config defaults
+ */
+export function resolveFieldPolicy(
+  config: OrionCacheConfig,
+  typeName: string,
+  fieldName: string
+): CachePolicy {
+  return toPolicy(config, findFieldRule(config, typeName, fieldName));
+}
+
+/**
+ * Rule that applies to a type: the first rule listing it by name.
+ *
+ * Rules naming an interface or union don't apply to its members here, just
+ * as the edge matches a response's concrete `__typename`; generated configs
+ * list the members explicitly (see `expandAbstractTypes`).
+ */
+export function findTypeRule(config: OrionCacheConfig, typeName: string): OrionCacheRule | undefined {
+  return config.rules.find((r) => r.types.includes(typeName));
+}
+
+/**
+ * Rule that applies to `Type.field`: the first rule selecting the field,
+ * else the type's rule
+ */
+export function findFieldRule(
+  config: OrionCacheConfig,
+  typeName: string,
+  fieldName: string
+): OrionCacheRule | undefined {
+  const selector = `${typeName}.${fieldName}`;
+  return config.rules.find((r) => r.fields?.includes(selector)) ?? findTypeRule(config, typeName);
+}
+
+/**
+ * Effective policy of a response selecting the given "Type.field"
+ * selectors: passthrough or private if any field is, and the lowest TTLs
+ */
+export function resolveResponsePolicy(config: OrionCacheConfig, selectors: string[]): CachePolicy {
+  const policies = selectors.map((selector) => {
+    const dot = selector.indexOf(".");
+    return dot === -1
+      ? toPolicy(config, findTypeRule(config, selector))
+      : resolveFieldPolicy(config, selector.slice(0, dot), selector.slice(dot + 1));
+  });
+  return mostRestrictivePolicy(policies.length > 0 ? policies : [toPolicy(config, undefined)]);
+}
+
+/**
+ * Combine policies, keeping the most restrictive value of each setting
+ */
+export function mostRestrictivePolicy(policies: CachePolicy[]): CachePolicy {
+  const passthrough = policies.some((p) => p.passthrough);
+  return {
+    maxAge: passthrough ? 0 : Math.min(...policies.map((p) => p.maxAge)),
+    staleWhileRevalidate: passthrough ? 0 : Math.min(...policies.map((p) => p.staleWhileRevalidate)),
+    staleIfError: passthrough ? 0 : Math.min(...policies.map((p) => p.staleIfError)),
+    scope: policies.some((p) => p.scope === "private") ? "private" : "public",
+    passthrough,
+  };
+}
+
+/**
+ * Share of observed traffic a config caches. A query operation is cached
+ * when the policy of the fields it selects isn't passthrough and has a
+ * positive maxAge; requests repeating a cache key count toward reuse.
+ */
+export function estimateTrafficCoverage(
+  config: OrionCacheConfig,
+  traffic: TrafficProfile
+): TrafficCoverage {
+  let cached = 0;
+  let reused = 0;
+  const uncached: string[] = [];
+
+  for (const op of traffic.operations) {
+    if (op.operation !== "query") continue;
+    const policy = resolveResponsePolicy(config, op.selectors);
+    if (policy.passthrough || policy.maxAge <= 0) {
+      uncached.push(op.name);
+      continue;
+    }
+    cached += op.requests;
+    reused += op.requests - op.distinctKeys;
+  }
+
+  const total = traffic.totalRequests;
+  return {
+    cacheableShare: total ? Math.round((cached / total) * 1000) / 1000 : 0,
+    reuseShare: total ? Math.round((reused / total) * 1000) / 1000 : 0,
+    uncached,
+  };
+}
+
+/**
+ * Policy a rule sets, with the config defaults for settings it leaves out
+ */
+export function toPolicy(config: OrionCacheConfig, rule: OrionCacheRule | undefined): CachePolicy {
+  if (rule?.passthrough) {
+    return { maxAge: 0, staleWhileRevalidate: 0, staleIfError: 0, scope: rule.scope ?? "public", passthrough: true };
+  }
+  return {
+    maxAge: rule?.maxAge ?? config.defaults.maxAge,
+    staleWhileRevalidate: rule?.staleWhileRevalidate ?? config.defaults.staleWhileRevalidate,
+    staleIfError: rule?.staleIfError ?? config.defaults.staleIfError,
+    scope: rule?.scope ?? "public",
+    passthrough: false,
+  };
+}
@@ -2,8 +2,16 @@
  * Prompt construction for AI cache config generation
  */
 
-import type { AnalyzedSchema, ConfigPreferences } from "../types.js";
-import { generateSchemaSummary } from "../analyzer.js";
+import type { AnalyzedSchema, ConfigPreferences, SummaryOmissions } from "../types.js";
+import {
+  formatCacheHint,
+  formatCost,
+  summarizeSchema,
+  type SummaryOptions,
+} from "../analyzer.js";
+
+/** How many of the costliest queries the prompt calls out */
+const COSTLY_QUERY_COUNT = 5;
 
 /**
  * Build the system prompt for cache config generation
@@ -43,12 +51,19 @@ export function buildSystemPrompt(): string {
 4. **Sensitive data** (email, password, etc.) should be "private" or passthrough
 5. **List queries** benefit from staleWhileRevalidate for pagination
 6. **Mutations** should always invalidate related cache entries
+7. **Paginated lists** (Relay connections, offset pages) can get their own rules, separate from the items they contain; creating or deleting an item should invalidate "Type:list" and its connection types rather than every instance
+8. **Interfaces and unions** may be listed in rule types; a rule for an abstract type applies to all of its possible types that have no rule of their own
+9. **Real-time types** (streamed by a subscription) change continuously; give them very short TTLs (a few seconds) or passthrough
+10. **Cache keys** are listed per query; queries marked "not cacheable" take a required high-cardinality argument (free text, timestamps, session tokens) and should usually bypass the cache, and "per user" queries need private scope
+11. **Costly queries** (high estimated cost, deep or list-multiplied) gain the most from caching; prioritize rules for the types they return
+12. **Field-level rules**: when only some fields of a type are volatile, user-specific or sensitive (see "Field traits"), list them as "Type.field" selectors in a rule's "fields" instead of restricting the whole type; a response gets the most restrictive policy of the fields it selects
+13. **Traffic** (when a "Traffic" section is present) shows each operation's share of requests and how many distinct variable sets it sees; give the hot types their own well-tuned rules, prefer staleWhileRevalidate on hot volatile types so the origin isn't hit on every expiry, and don't tighten policies on hot paths beyond what the data requires
 
 ## Output Format
 
 Respond with a JSON object containing:
-- rules: Array of cache rules with types, maxAge, staleWhileRevalidate, staleIfError, scope, passthrough, and reasoning
-- invalidations: Object mapping mutation names to arrays of type patterns to invalidate
+- rules: Array of cache rules with types, fields (optional "Type.field" selectors), maxAge, staleWhileRevalidate, staleIfError, scope, passthrough, and reasoning
+- invalidations: Object mapping mutation names to arrays of type patterns to invalidate ("Type:*" for all instances, "Type:{keyField}" to target the instance identified by the entity's key fields, or "Type:list" for cached lists of the type)
 - explanation: Overall explanation of the caching strategy
 - confidence: Number 0-1 indicating confidence in recommendations
 - warnings: Array of potential issues or considerations
@@ -57,15 +72,30 @@ Be specific and practical. Consider real-world usage patterns.`;
 }
 
 /**
- * Build the user prompt with schema analysis and preferences
+ * Build the user prompt with schema analysis and preferences.
+ *
+ * Under a token budget, the hint, real-time and costly-query sections only
+ * cover what the summary shows in full, and they share the budget with it.
  */
 export function buildUserPrompt(
   schema: AnalyzedSchema,
-  preferences?: ConfigPreferences
+  preferences?: ConfigPreferences,
+  summaryOptions: SummaryOptions = {}
 ): string {
-  const summary = generateSchemaSummary(schema);
+  let summary = summarizeSchema(schema, summaryOptions);
+  let sections = buildSchemaSections(schema, summary.omitted);
+
+  const budget = summaryOptions.tokenBudget;
+  if (budget !== undefined) {
+    const sectionTokens = Math.ceil(sections.length / (summaryOptions.charsPerToken ?? 4));
+    if (summary.estimatedTokens + sectionTokens > budget) {
+      summary = summarizeSchema(schema, { ...summaryOptions, tokenBudget: Math.max(0, budget - sectionTokens) });
+      sections = buildSchemaSections(schema, summary.omitted);
+    }
+  }
 
-  let prompt = `Analyze the following GraphQL schema and generate caching configuration:\n\n${summary}\n`;
+  let prompt = `Analyze the following GraphQL schema and generate caching configuration:\n\n${summary.text}\n`;
+  prompt += sections;
 
   if (preferences) {
     prompt += "\n## User Preferences\n\n";
@@ -103,3 +133,61 @@ Respond with valid JSON only.`;
 
   return prompt;
 }
+
+/**
+ * Declared hints, real-time types and costliest queries, limited to the
+ * types and queries a budgeted summary didn't omit
+ */
+function buildSchemaSections(schema: AnalyzedSchema, omitted: SummaryOmissions): string {
+  const omittedTypes = new Set(omitted.types);
+  const omittedQueries = new Set(omitted.queries);
+  const collapsed = (count: number) =>
+    count > 0 ? `- ...and ${count} more among the collapsed types\n` : "";
+  let sections = "";
+
+  const hinted = schema.entities.filter((e) => e.cacheControl && !e.characteristics.isRootType);
+  const shownHinted = hinted.filter((e) => !omittedTypes.has(e.name));
+  if (hinted.length > 0) {
+    sections += "\n## Declared Cache Hints\n\n";
+    sections +=
+      "These types carry @cacheControl hints from the schema authors. Treat them as authoritative: " +
+      "use the declared maxAge and scope unless the user preferences below say otherwise, and " +
+      "only apply heuristics to types without hints.\n\n";
+    for (const entity of shownHinted) {
+      sections += `- ${entity.name}: ${formatCacheHint(entity.cacheControl!)}\n`;
+    }
+    sections += collapsed(hinted.length - shownHinted.length);
+  }
+
+  const realtime = schema.entities.filter((e) => e.characteristics.hasSubscription);
+  const shownRealtime = realtime.filter((e) => !omittedTypes.has(e.name));
+  if (realtime.length > 0) {
+    sections += "\n## Real-time Types\n\n";
+    sections +=
+      "Clients receive live updates for these types through subscriptions, so cached responses " +
+      "go stale quickly. Use very short TTLs or passthrough.\n\n";
+    for (const entity of shownRealtime) {
+      const streamedBy = schema.subscriptions
+        .filter((s) => s.affectedTypes.includes(entity.name))
+        .map((s) => s.name);
+      sections += `- ${entity.name} (${streamedBy.join(", ")})\n`;
+    }
+    sections += collapsed(realtime.length - shownRealtime.length);
+  }
+
+  const costly = schema.queries
+    .filter((q) => q.cost && q.cost.cost > 0 && !omittedQueries.has(q.name))
+    .sort((a, b) => b.cost!.cost - a.cost!.cost)
+    .slice(0, COSTLY_QUERY_COUNT);
+  if (costly.length > 0) {
+    sections += "\n## Costliest Queries\n\n";
+    sections +=
+      "Estimated worst-case cost of each query with every field selected. Caching these saves " +
+      "the most origin work, so prioritize rules for the types they return.\n\n";
+    for (const query of costly) {
+      sections += `- ${query.name} -> ${query.returnType}: ${formatCost(query.cost!)}\n`;
+    }
+  }
+
+  return sections;
+}
@@ -29,9 +29,15 @@ export function parseAIResponse(responseText: string): AIConfigResponse {
     const rules: GeneratedCacheRule[] = parsed.rules.map(
       (rule: Partial<GeneratedCacheRule>) => ({
         types: rule.types || [],
-        maxAge: rule.maxAge ?? 300,
-        staleWhileRevalidate: rule.staleWhileRevalidate,
-        staleIfError: rule.staleIfError,
+        ...(Array.isArray(rule.fields) ? { fields: rule.fields } : {}),
+        // Passthrough responses are never cached, so their TTLs are dropped
+        ...(rule.passthrough
+          ? {}
+          : {
+              maxAge: rule.maxAge ?? 300,
+              staleWhileRevalidate: rule.staleWhileRevalidate,
+              staleIfError: rule.staleIfError,
+            }),
         scope: rule.scope,
         passthrough: rule.passthrough,
         reasoning: rule.reasoning || "No reasoning provided",
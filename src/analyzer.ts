@@ -7,4 +7,82 @@
  * @module analyzer
  */
 
-export { analyzeSchema, generateSchemaSummary } from "./analyzer/index.js";
+export {
+  analyzeSchema,
+  generateSchemaSummary,
+  summarizeSchema,
+  rankTypes,
+  type AnalyzeSchemaOptions,
+  type SummaryOptions,
+
+  // Federation
+  extractFederationMetadata,
+  parseFieldSet,
+  type FederationSource,
+
+  // Trait classification
+  classifyType,
+  splitTokens,
+  DEFAULT_CLASSIFIER_RULES,
+  DEFAULT_CLASSIFIER_THRESHOLD,
+  type Classification,
+  type ClassifierOptions,
+
+  // Serialization
+  ANALYSIS_FORMAT_VERSION,
+  ANALYZER_VERSION,
+  deserializeAnalysis,
+  fingerprintTypes,
+  serializeAnalysis,
+  type DeserializeAnalysisOptions,
+  type SerializeAnalysisOptions,
+
+  // Operation cost
+  applyOperationCosts,
+  DEFAULT_COST_DEPTH,
+  DEFAULT_LIST_SIZE,
+  estimateFieldCost,
+  PAGE_SIZE_ARGS,
+  type CostOptions,
+
+  // Traffic
+  applyTraffic,
+  buildTrafficProfile,
+  parseOperationLog,
+  type ParsedOperationLog,
+  type TrafficOptions,
+
+  // Argument roles and cache keys
+  ARGUMENT_ROLE_ORDER,
+  classifyArgument,
+  composeCacheKey,
+
+  // Transitive invalidation
+  buildInvalidationGraph,
+  DEFAULT_EMBEDDING_DEPTH,
+  findEmbeddingTypes,
+  type EmbeddingOptions,
+
+  // Mutation impact
+  AFFECTED_TYPE_THRESHOLD,
+  inferMutationImpact,
+  singularize,
+
+  // Pagination
+  detectFieldPagination,
+  detectListWrapper,
+  findListedTypes,
+  OFFSET_PAGINATION_ARGS,
+  RELAY_PAGINATION_ARGS,
+
+  // @cacheControl hints
+  collectCacheHints,
+  formatCacheHint,
+  formatCost,
+  type DeclaredCacheHints,
+
+  // Entity identity
+  resolveEntityKey,
+  type EntityIdentityOptions,
+  type ResolvedEntityKey,
+} from "./analyzer/index.js";
@@ -0,0 +1,57 @@
+/**
+ * Abstract type (interface and union) extraction from GraphQL schema
+ */
+
+import type { AbstractType, IntrospectionType } from "../types.js";
+
+import { BUILT_IN_TYPES, isFederationInternalType } from "./constants.js";
+import { extractFieldInfo } from "./entity-extractor.js";
+
+/**
+ * Extract interfaces and unions with their concrete member types
+ */
+export function extractAbstractTypes(
+  types: IntrospectionType[],
+  typeMap: Map<string, IntrospectionType>
+): AbstractType[] {
+  const abstractTypes: AbstractType[] = [];
+
+  for (const type of types) {
+    if (type.kind !== "INTERFACE" && type.kind !== "UNION") continue;
+    if (BUILT_IN_TYPES.has(type.name) || type.name.startsWith("__")) continue;
+    if (isFederationInternalType(type.name)) continue;
+
+    abstractTypes.push({
+      name: type.name,
+      kind: type.kind,
+      description: type.description,
+      possibleTypes: findPossibleTypes(type, typeMap),
+      fields: (type.fields ?? []).map((f) => extractFieldInfo(f)),
+      referencedBy: [], // Will be filled in later
+    });
+  }
+
+  return abstractTypes;
+}
+
+/**
+ * Concrete object types of an abstract type. Interface implementers are
+ * found through the object types' `interfaces` when introspection didn't
+ * list them.
+ */
+export function findPossibleTypes(
+  type: IntrospectionType,
+  typeMap: Map<string, IntrospectionType>
+): string[] {
+  const members = new Set((type.possibleTypes ?? []).map((t) => t.name ?? ""));
+
+  if (type.kind === "INTERFACE") {
+    for (const candidate of typeMap.values()) {
+      if (candidate.kind === "OBJECT" && candidate.interfaces?.some((i) => i.name === type.name)) {
+        members.add(candidate.name);
+      }
+    }
+  }
+
+  return [...members].filter((name) => typeMap.get(name)?.kind === "OBJECT");
+}
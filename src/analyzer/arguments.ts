@@ -0,0 +1,99 @@
+/**
+ * Argument role classification
+ *
+ * Classifies operation arguments by what they do to the result and derives
+ * how a query's cache key should be composed from them.
+ */
+
+import type { ArgumentInfo, ArgumentRole, CacheKeyComposition } from "../types.js";
+
+import { splitTokens } from "./classifier.js";
+import { OFFSET_PAGINATION_ARGS, RELAY_PAGINATION_ARGS } from "./pagination.js";
+
+/** Order of roles within a cache key, most selective first */
+export const ARGUMENT_ROLE_ORDER: ArgumentRole[] = [
+  "identity",
+  "localization",
+  "filter",
+  "search",
+  "pagination",
+  "personalization",
+];
+
+const PERSONALIZATION_TOKENS = new Set(["viewer", "session", "me", "visitor", "device", "token", "personalized"]);
+
+/** Personalization tokens whose values change per visit rather than per user */
+const EPHEMERAL_TOKENS = new Set(["session", "device", "token", "nonce"]);
+
+const LOCALIZATION_TOKENS = new Set([
+  "locale",
+  "language",
+  "lang",
+  "currency",
+  "country",
+  "region",
+  "market",
+  "timezone",
+  "tz",
+]);
+
+const SEARCH_TOKENS = new Set(["q", "query", "search", "term", "terms", "keyword", "keywords", "text", "fulltext"]);
+
+const IDENTITY_TOKENS = new Set(["id", "ids", "uuid", "guid", "slug", "handle", "key", "sku", "pk"]);
+
+/** Scalars precise enough that each request tends to send a new value */
+const TIMESTAMP_SCALARS = /^(DateTime|Timestamp|Instant|Time|ZonedDateTime|OffsetDateTime)$/i;
+
+/**
+ * Classify an argument's role and whether it is high-cardinality
+ */
+export function classifyArgument(
+  arg: Pick<ArgumentInfo, "name" | "typeName">
+): { role: ArgumentRole; highCardinality: boolean } {
+  const tokens = splitTokens(arg.name);
+  const typeTokens = splitTokens(arg.typeName);
+  const has = (set: Set<string>, list = tokens) => list.some((t) => set.has(t));
+
+  if (
+    RELAY_PAGINATION_ARGS.includes(arg.name) ||
+    OFFSET_PAGINATION_ARGS.includes(arg.name) ||
+    tokens.includes("cursor")
+  ) {
+    return { role: "pagination", highCardinality: false };
+  }
+
+  if (has(PERSONALIZATION_TOKENS)) {
+    return { role: "personalization", highCardinality: has(EPHEMERAL_TOKENS) };
+  }
+
+  if (has(LOCALIZATION_TOKENS) || has(LOCALIZATION_TOKENS, typeTokens)) {
+    return { role: "localization", highCardinality: false };
+  }
+
+  if (has(SEARCH_TOKENS) && !has(IDENTITY_TOKENS)) {
+    return { role: "search", highCardinality: true };
+  }
+
+  if (arg.typeName === "ID" || IDENTITY_TOKENS.has(tokens[tokens.length - 1] ?? "")) {
+    return { role: "identity", highCardinality: false };
+  }
+
+  return {
+    role: "filter",
+    highCardinality: TIMESTAMP_SCALARS.test(arg.typeName) || tokens.includes("timestamp"),
+  };
+}
+
+/**
+ * Recommend a cache key composition for a query from its classified arguments
+ */
+export function composeCacheKey(args: ArgumentInfo[]): CacheKeyComposition {
+  const ordered = ARGUMENT_ROLE_ORDER.flatMap((role) => args.filter((a) => a.role === role));
+
+  return {
+    arguments: ordered.map((a) => a.name),
+    perUser: args.some((a) => a.role === "personalization"),
+    highCardinality: args.filter((a) => a.highCardinality).map((a) => a.name),
+    cacheable: !args.some((a) => a.highCardinality && a.isRequired),
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * @cacheControl hint extraction
+ *
+ * Collects Apollo `@cacheControl(maxAge:, scope:, inheritMaxAge:)` hints from
+ * SDL and resolves the effective policy per type. Introspection doesn't
+ * expose applied directives, so hints are only available from SDL.
+ */
+
+import type {
+  AbstractType,
+  CacheHint,
+  CacheScope,
+  EntityType,
+  IntrospectionType,
+} from "../types.js";
+import type { DocumentNode, DirectiveNode } from "../sdl/ast.js";
+
+import { parseSDL } from "../sdl/parser.js";
+import { getDirectiveArguments } from "../sdl/values.js";
+import { unwrapType } from "./type-utils.js";
+
+/**
+ * Hints declared on a type and its fields
+ */
+export interface DeclaredCacheHints {
+  type: CacheHint | null;
+  fields: Record<string, CacheHint>;
+}
+
+/**
+ * Collect @cacheControl hints per type from SDL documents. Hints from type
+ * extensions and several documents are merged.
+ */
+export function collectCacheHints(
+  documents: Array<string | DocumentNode>
+): Map<string, DeclaredCacheHints> {
+  const hints = new Map<string, DeclaredCacheHints>();
+
+  documents.forEach((document, i) => {
+    const parsed =
+      typeof document === "string" ? parseSDL(document, `SDL document #${i + 1}`) : document;
+
+    for (const definition of parsed.definitions) {
+      if (
+        definition.kind !== "ObjectTypeDefinition" &&
+        definition.kind !== "InterfaceTypeDefinition" &&
+        definition.kind !== "UnionTypeDefinition"
+      ) {
+        continue;
+      }
+
+      const typeHint = readHint(definition.directives);
+      const fieldHints: Record<string, CacheHint> = {};
+      if (definition.kind !== "UnionTypeDefinition") {
+        for (const field of definition.fields) {
+          const hint = readHint(field.directives);
+          if (hint) fieldHints[field.name] = hint;
+        }
+      }
+
+      if (!typeHint && Object.keys(fieldHints).length === 0) continue;
+
+      const existing = hints.get(definition.name) ?? { type: null, fields: {} };
+      hints.set(definition.name, {
+        type: typeHint ?? existing.type,
+        fields: { ...existing.fields, ...fieldHints },
+      });
+    }
+  });
+
+  return hints;
+}
+
+function readHint(directives: DirectiveNode[]): CacheHint | null {
+  const directive = directives.find((d) => d.name === "cacheControl");
+  if (!directive) return null;
+
+  const args = getDirectiveArguments(directive);
+  const hint: CacheHint = {};
+  if (typeof args.maxAge === "number") {
+    hint.maxAge = args.maxAge;
+  }
+  if (args.scope === "PRIVATE" || args.scope === "PUBLIC") {
+    hint.scope = args.scope === "PRIVATE" ? "private" : "public";
+  }
+  if (args.inheritMaxAge === true) {
+    hint.inheritMaxAge = true;
+  }
+  return hint;
+}
+
+/**
+ * A field returning a type, through which the type inherits hints
+ */
+interface ParentField {
+  parent: string;
+  hint: CacheHint | undefined;
+}
+
+/**
+ * Resolve the effective cache policy of each entity and attach it as
+ * `cacheControl`. Follows Apollo semantics:
+ * - a hint on a field overrides the hint on the type it returns
+ * - a type takes the lowest maxAge over the fields returning it, or with
+ *   `inheritMaxAge` the lowest effective maxAge of its parents
+ * - leaf field hints on the type lower its maxAge
+ * - any private hint makes the type private
+ */
+export function applyCacheHints(
+  entities: EntityType[],
+  abstractTypes: AbstractType[],
+  typeMap: Map<string, IntrospectionType>,
+  hints: Map<string, DeclaredCacheHints>
+): void {
+  if (hints.size === 0) return;
+
+  const membersOf = new Map(abstractTypes.map((a) => [a.name, a.possibleTypes]));
+  const parents = new Map<string, ParentField[]>();
+
+  for (const type of typeMap.values()) {
+    if (type.kind !== "OBJECT" || !type.fields) continue;
+    for (const field of type.fields) {
+      const { typeName } = unwrapType(field.type);
+      const hint = hints.get(type.name)?.fields[field.name];
+      const abstractHint = hints.get(typeName)?.type ?? undefined;
+      for (const target of [typeName, ...(membersOf.get(typeName) ?? [])]) {
+        const list = parents.get(target) ?? [];
+        // Fields returning an abstract type carry its type-level hint to members
+        list.push({ parent: type.name, hint: target === typeName ? hint : hint ?? abstractHint });
+        parents.set(target, list);
+      }
+    }
+  }
+
+  type Policy = { maxAge: number | null; scope: CacheScope | null };
+  const resolved = new Map<string, Policy>();
+
+  const resolve = (typeName: string, visiting: Set<string>): Policy => {
+    const cached = resolved.get(typeName);
+    if (cached) return cached;
+    if (visiting.has(typeName)) return { maxAge: null, scope: null };
+    visiting.add(typeName);
+
+    const declared = hints.get(typeName);
+    const typeHint = declared?.type ?? null;
+    const incoming = parents.get(typeName) ?? [];
+
+    // Each field returning the type uses its own hint, else the type's hint
+    const pathAges = incoming
+      .map((p) => p.hint?.maxAge ?? typeHint?.maxAge)
+      .filter((age): age is number => age !== undefined);
+
+    let maxAge: number | null =
+      pathAges.length > 0 ? Math.min(...pathAges) : typeHint?.maxAge ?? null;
+    if (maxAge === null && (typeHint?.inheritMaxAge || incoming.some((p) => p.hint?.inheritMaxAge))) {
+      const parentAges = incoming
+        .map((p) => resolve(p.parent, visiting).maxAge)
+        .filter((age): age is number => age !== null);
+      maxAge = parentAges.length > 0 ? Math.min(...parentAges) : null;
+    }
+
+    // Leaf fields (scalars and enums) with their own hints
+    const type = typeMap.get(typeName);
+    for (const field of type?.fields ?? []) {
+      const hint = declared?.fields[field.name];
+      const kind = typeMap.get(unwrapType(field.type).typeName)?.kind;
+      if (hint?.maxAge !== undefined && (kind === "SCALAR" || kind === "ENUM")) {
+        maxAge = maxAge === null ? hint.maxAge : Math.min(maxAge, hint.maxAge);
+      }
+    }
+
+    const isPrivate =
+      typeHint?.scope === "private" ||
+      Object.values(declared?.fields ?? {}).some((h) => h.scope === "private") ||
+      incoming.some((p) => p.hint?.scope === "private");
+    const isPublic =
+      typeHint?.scope === "public" || incoming.some((p) => p.hint?.scope === "public");
+
+    const result: Policy = { maxAge, scope: isPrivate ? "private" : isPublic ? "public" : null };
+    visiting.delete(typeName);
+    resolved.set(typeName, result);
+    return result;
+  };
+
+  for (const entity of entities) {
+    const declared = hints.get(entity.name);
+    const { maxAge, scope } = resolve(entity.name, new Set());
+    if (!declared && maxAge === null && scope === null) continue;
+
+    entity.cacheControl = {
+      type: declared?.type ?? null,
+      fields: declared?.fields ?? {},
+      maxAge,
+      scope,
+    };
+  }
+}
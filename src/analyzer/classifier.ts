@@ -0,0 +1,191 @@
+/**
+ * Weighted trait classification
+ *
+ * Scores entity traits from configurable rules. Each matching rule adds
+ * evidence; the evidence weights combine into a confidence, and a trait is
+ * present when its confidence reaches the threshold.
+ */
+
+import type {
+  ClassifiedTrait,
+  ClassifierMatcher,
+  ClassifierRule,
+  FieldInfo,
+  IntrospectionType,
+  TraitEvidence,
+  TraitScore,
+} from "../types.js";
+
+import { DEFAULT_CLASSIFIER_RULES, DEFAULT_CLASSIFIER_THRESHOLD } from "./constants.js";
+
+/**
+ * Classifier configuration
+ */
+export interface ClassifierOptions {
+  /** Rules added to (or, with `replaceDefaults`, replacing) the built-in rules */
+  rules?: ClassifierRule[];
+
+  /** Use only `rules`, dropping the built-in rules (default: false) */
+  replaceDefaults?: boolean;
+
+  /** Confidence at which a trait is present (default: 0.5) */
+  threshold?: number;
+}
+
+const CLASSIFIED_TRAITS: ClassifiedTrait[] = [
+  "isVolatile",
+  "isUserSpecific",
+  "hasSensitiveFields",
+  "isCollection",
+];
+
+/**
+ * Result of classifying one type
+ */
+export interface Classification {
+  traits: Record<ClassifiedTrait, boolean>;
+  scores: Record<ClassifiedTrait, TraitScore>;
+
+  /** Traits each field carries on its own evidence, by field name */
+  fields: Record<string, ClassifiedTrait[]>;
+}
+
+/** Traits that can apply to a single field */
+const FIELD_TRAITS: ClassifiedTrait[] = ["isVolatile", "isUserSpecific", "hasSensitiveFields"];
+
+/**
+ * Classify a type's traits from its name, description and fields
+ */
+export function classifyType(
+  type: IntrospectionType,
+  fields: FieldInfo[],
+  options: ClassifierOptions = {}
+): Classification {
+  const rules = options.replaceDefaults
+    ? options.rules ?? []
+    : [...DEFAULT_CLASSIFIER_RULES, ...(options.rules ?? [])];
+  const threshold = options.threshold ?? DEFAULT_CLASSIFIER_THRESHOLD;
+
+  const evidence = new Map<ClassifiedTrait, TraitEvidence[]>(
+    CLASSIFIED_TRAITS.map((trait) => [trait, []])
+  );
+
+  for (const rule of rules) {
+    const found = evidence.get(rule.trait) ?? [];
+    evidence.set(rule.trait, found);
+
+    if (matchesType(rule.match, type)) {
+      found.push({ rule: rule.id, field: null, weight: rule.weight });
+    }
+    for (const field of fields) {
+      if (matchesField(rule.match, field)) {
+        found.push({ rule: rule.id, field: field.name, weight: rule.weight });
+      }
+    }
+  }
+
+  const traits = {} as Record<ClassifiedTrait, boolean>;
+  const scores = {} as Record<ClassifiedTrait, TraitScore>;
+  for (const trait of CLASSIFIED_TRAITS) {
+    const found = evidence.get(trait) ?? [];
+    const confidence = combineWeights(found.map((e) => e.weight));
+    scores[trait] = { confidence, evidence: found };
+    traits[trait] = found.length > 0 && confidence >= threshold;
+  }
+
+  const fieldTraits: Record<string, ClassifiedTrait[]> = {};
+  for (const field of fields) {
+    fieldTraits[field.name] = FIELD_TRAITS.filter((trait) => {
+      const weights = scores[trait].evidence.filter((e) => e.field === field.name).map((e) => e.weight);
+      return weights.length > 0 && combineWeights(weights) >= threshold;
+    });
+  }
+
+  return { traits, scores, fields: fieldTraits };
+}
+
+/**
+ * Whether a rule matches a single field, independent of its type
+ */
+export function matchesField(matcher: ClassifierMatcher, field: FieldInfo): boolean {
+  switch (matcher.kind) {
+    case "regex":
+      return matcher.pattern.test(field.name);
+    case "token":
+      return hasTokenSequence(splitTokens(field.name), matcher.tokens, matcher.position ?? "any");
+    case "scalar":
+      return matcher.types.includes(field.typeName);
+    case "description":
+      return containsKeyword(field.description, matcher.keywords);
+    case "typeName":
+      return false;
+  }
+}
+
+function matchesType(matcher: ClassifierMatcher, type: IntrospectionType): boolean {
+  switch (matcher.kind) {
+    case "typeName":
+      return matcher.pattern.test(type.name);
+    case "description":
+      return containsKeyword(type.description, matcher.keywords);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Split an identifier into lowercase camelCase/snake_case tokens, e.g.
+ * "lastSeenAt" -> ["last", "seen", "at"], "HTTPStatus_code" -> ["http", "status", "code"]
+ */
+export function splitTokens(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[\s_\-]+/)
+    .filter((token) => token.length > 0)
+    .map((token) => token.toLowerCase());
+}
+
+function hasTokenSequence(
+  tokens: string[],
+  wanted: string[],
+  position: "any" | "start" | "end"
+): boolean {
+  const sequence = wanted.flatMap(splitTokens);
+  if (sequence.length === 0 || sequence.length > tokens.length) {
+    return false;
+  }
+
+  const matchesAt = (offset: number) => sequence.every((t, i) => tokens[offset + i] === t);
+  if (position === "start") return matchesAt(0);
+  if (position === "end") return matchesAt(tokens.length - sequence.length);
+
+  for (let offset = 0; offset <= tokens.length - sequence.length; offset++) {
+    if (matchesAt(offset)) return true;
+  }
+  return false;
+}
+
+function containsKeyword(text: string | null, keywords: string[]): boolean {
+  if (!text) return false;
+  const lower = text.toLowerCase();
+  return keywords.some((keyword) =>
+    new RegExp(`\\b${escapeRegExp(keyword.toLowerCase())}\\b`).test(lower)
+  );
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Combine independent evidence: 1 - product of (1 - weight)
+ */
+function combineWeights(weights: number[]): number {
+  const remaining = weights.reduce((product, w) => product * (1 - clamp(w)), 1);
+  return Math.round((1 - remaining) * 1000) / 1000;
+}
+
+function clamp(weight: number): number {
+  return Math.min(Math.max(weight, 0), 1);
+}
@@ -2,6 +2,11 @@
  * Constants for schema analysis
  */
 
+import type { ClassifierRule, RootTypeNames } from "../types.js";
+
+/** Version of the analysis output, recorded in serialized analyses */
+export const ANALYZER_VERSION = "2.0.0";
+
 /** Built-in GraphQL types to ignore */
 export const BUILT_IN_TYPES = new Set([
   "String",
@@ -19,74 +24,188 @@ export const BUILT_IN_TYPES = new Set([
   "__DirectiveLocation",
 ]);
 
-/** Field names that suggest volatility (frequent updates) */
-export const VOLATILE_FIELD_PATTERNS = [
-  "updatedAt",
-  "modifiedAt",
-  "lastModified",
-  "lastUpdated",
-  "lastSeen",
-  "lastActive",
-  "viewCount",
-  "likeCount",
-  "commentCount",
-  "score",
-  "rating",
-  "status",
-  "state",
-];
+/** Types added by Apollo Federation that are never entities */
+export const FEDERATION_INTERNAL_TYPES = new Set([
+  "_Service",
+  "_Entity",
+  "_Any",
+  "_FieldSet",
+  "FieldSet",
+]);
 
-/** Field names that suggest user-specific data */
-export const USER_SPECIFIC_PATTERNS = [
-  "userId",
-  "ownerId",
-  "authorId",
-  "creatorId",
-  "user",
-  "owner",
-  "author",
-  "creator",
-  "me",
-  "currentUser",
-  "viewer",
-  "myProfile",
-];
+/** Name prefixes of federation and supergraph bookkeeping types */
+export const FEDERATION_TYPE_PREFIXES = ["join__", "link__", "federation__"];
 
-/** Field names that suggest sensitive data */
-export const SENSITIVE_FIELD_PATTERNS = [
-  "email",
-  "password",
-  "passwordHash",
-  "token",
-  "secret",
-  "apiKey",
-  "privateKey",
-  "ssn",
-  "creditCard",
-  "phone",
-  "address",
-  "salary",
-  "balance",
-];
+/** Root query fields added by Apollo Federation */
+export const FEDERATION_ROOT_FIELDS = new Set(["_service", "_entities"]);
+
+/** Conventional root type names, assumed when a schema's roots aren't known */
+export const CONVENTIONAL_ROOT_TYPES: RootTypeNames = {
+  query: "Query",
+  mutation: "Mutation",
+  subscription: "Subscription",
+};
+
+/** Field names that mark a type as an entity */
+export const ID_FIELD_NAMES = ["id", "_id", "ID"];
 
 /**
- * Extract type name from mutation name
- * e.g., "createUser" -> "User", "updatePost" -> "Post"
+ * Whether a type only exists for federation plumbing
  */
-export function extractTypeFromMutation(mutationName: string, prefix: string): string {
-  const withoutPrefix = mutationName.slice(prefix.length);
-  return withoutPrefix.charAt(0).toUpperCase() + withoutPrefix.slice(1);
+export function isFederationInternalType(typeName: string): boolean {
+  return (
+    FEDERATION_INTERNAL_TYPES.has(typeName) ||
+    FEDERATION_TYPE_PREFIXES.some((prefix) => typeName.startsWith(prefix))
+  );
 }
 
-/** Mutation name patterns and their likely affected types */
-export const MUTATION_PATTERNS: Record<string, (name: string) => string[]> = {
-  create: (name) => [extractTypeFromMutation(name, "create")],
-  add: (name) => [extractTypeFromMutation(name, "add")],
-  insert: (name) => [extractTypeFromMutation(name, "insert")],
-  update: (name) => [extractTypeFromMutation(name, "update")],
-  edit: (name) => [extractTypeFromMutation(name, "edit")],
-  modify: (name) => [extractTypeFromMutation(name, "modify")],
-  delete: (name) => [extractTypeFromMutation(name, "delete")],
-  remove: (name) => [extractTypeFromMutation(name, "remove")],
-  destroy: (name) => [extractTypeFromMutation(name, "destroy")],
-};
+/**
+ * Built-in classifier rules. Field names are matched as camelCase/snake_case
+ * tokens so that e.g. `statement` is not volatile and `addressBookEnabled`
+ * is not sensitive.
+ */
+export const DEFAULT_CLASSIFIER_RULES: ClassifierRule[] = [
+  // Volatility
+  {
+    id: "volatile:modification-timestamp",
+    trait: "isVolatile",
+    match: { kind: "regex", pattern: /^(updated|modified|last_?(modified|updated|seen|active))(_?at|_?on|_?time)?$/i },
+    weight: 0.8,
+  },
+  {
+    id: "volatile:counter",
+    trait: "isVolatile",
+    match: { kind: "token", tokens: ["count"], position: "end" },
+    weight: 0.6,
+  },
+  {
+    id: "volatile:score",
+    trait: "isVolatile",
+    match: { kind: "token", tokens: ["score"], position: "end" },
+    weight: 0.5,
+  },
+  {
+    id: "volatile:rating",
+    trait: "isVolatile",
+    match: { kind: "token", tokens: ["rating"], position: "end" },
+    weight: 0.5,
+  },
+  {
+    id: "volatile:status",
+    trait: "isVolatile",
+    match: { kind: "token", tokens: ["status"], position: "end" },
+    weight: 0.5,
+  },
+  {
+    id: "volatile:state",
+    trait: "isVolatile",
+    match: { kind: "token", tokens: ["state"], position: "end" },
+    weight: 0.5,
+  },
+  {
+    id: "volatile:description",
+    trait: "isVolatile",
+    match: { kind: "description", keywords: ["real-time", "realtime", "live", "frequently updated"] },
+    weight: 0.4,
+  },
+
+  // User-specific data
+  {
+    id: "user:owner-reference",
+    trait: "isUserSpecific",
+    match: { kind: "regex", pattern: /^(user|owner|author|creator)(_?id)?$/i },
+    weight: 0.7,
+  },
+  {
+    id: "user:owner-token",
+    trait: "isUserSpecific",
+    match: { kind: "token", tokens: ["user", "id"], position: "end" },
+    weight: 0.6,
+  },
+  {
+    id: "user:viewer",
+    trait: "isUserSpecific",
+    match: { kind: "regex", pattern: /^(me|viewer|current_?user|my_?profile)$/i },
+    weight: 0.8,
+  },
+  {
+    id: "user:description",
+    trait: "isUserSpecific",
+    match: { kind: "description", keywords: ["current user", "authenticated user", "viewer"] },
+    weight: 0.4,
+  },
+
+  // Sensitive data
+  {
+    id: "sensitive:credential",
+    trait: "hasSensitiveFields",
+    match: { kind: "regex", pattern: /^(password(_?hash)?|secret|api_?key|private_?key|access_?token|refresh_?token|token)$/i },
+    weight: 0.95,
+  },
+  {
+    id: "sensitive:credential-token",
+    trait: "hasSensitiveFields",
+    match: { kind: "token", tokens: ["password"] },
+    weight: 0.8,
+  },
+  {
+    id: "sensitive:contact",
+    trait: "hasSensitiveFields",
+    match: { kind: "regex", pattern: /^(\w+_?)?(email|phone|phone_?number|address)$/i },
+    weight: 0.7,
+  },
+  {
+    id: "sensitive:identity",
+    trait: "hasSensitiveFields",
+    match: { kind: "token", tokens: ["ssn"] },
+    weight: 0.95,
+  },
+  {
+    id: "sensitive:financial",
+    trait: "hasSensitiveFields",
+    match: { kind: "regex", pattern: /^(credit_?card(_?number)?|salary|balance|iban|card_?number)$/i },
+    weight: 0.8,
+  },
+  {
+    id: "sensitive:scalar",
+    trait: "hasSensitiveFields",
+    match: { kind: "scalar", types: ["Email", "EmailAddress", "PhoneNumber", "Password"] },
+    weight: 0.9,
+  },
+  {
+    id: "sensitive:description",
+    trait: "hasSensitiveFields",
+    match: { kind: "description", keywords: ["pii", "personal data", "confidential"] },
+    weight: 0.5,
+  },
+
+  // Collections
+  {
+    id: "collection:type-name",
+    trait: "isCollection",
+    match: { kind: "typeName", pattern: /(Connection|Edge|List|Page)$/ },
+    weight: 1,
+  },
+];
+
+/** Confidence at which a classified trait is considered present */
+export const DEFAULT_CLASSIFIER_THRESHOLD = 0.5;
+
+/** Leading verbs of mutation names that change an entity */
+export const MUTATION_VERBS = [
+  "create",
+  "add",
+  "insert",
+  "upsert",
+  "update",
+  "edit",
+  "modify",
+  "set",
+  "delete",
+  "remove",
+  "destroy",
+  "archive",
+  "restore",
+  "publish",
+  "unpublish",
+];
@@ -0,0 +1,196 @@
+/**
+ * Static query cost estimation
+ *
+ * Estimates how expensive an operation can get by expanding every field of
+ * its return type down to a maximum depth, multiplying nested counts by list
+ * sizes taken from `first`/`limit` argument defaults.
+ */
+
+import type {
+  IntrospectionField,
+  IntrospectionType,
+  OperationCost,
+  OperationType,
+} from "../types.js";
+
+import { detectListWrapper } from "./pagination.js";
+import { unwrapType } from "./type-utils.js";
+
+/**
+ * Cost model configuration
+ */
+export interface CostOptions {
+  /** How many object levels below the root field to expand (default: 3) */
+  maxDepth?: number;
+
+  /** Items assumed per list when no page size default is declared (default: 10) */
+  defaultListSize?: number;
+
+  /** Cost of resolving a field, keyed by "Type.field"; overrides the defaults below */
+  fieldCosts?: Record<string, number>;
+
+  /** Cost of a field returning an object, interface or union (default: 1) */
+  objectFieldCost?: number;
+
+  /** Cost of a field returning a scalar or enum (default: 0) */
+  scalarFieldCost?: number;
+}
+
+/** Arguments whose default value is the page size */
+export const PAGE_SIZE_ARGS = [
+  "first",
+  "last",
+  "limit",
+  "take",
+  "top",
+  "count",
+  "size",
+  "perPage",
+  "per_page",
+  "pageSize",
+  "page_size",
+];
+
+export const DEFAULT_COST_DEPTH = 3;
+export const DEFAULT_LIST_SIZE = 10;
+
+interface CostModel {
+  typeMap: Map<string, IntrospectionType>;
+  maxDepth: number;
+  defaultListSize: number;
+  fieldCosts: Record<string, number>;
+  objectFieldCost: number;
+  scalarFieldCost: number;
+  memo: Map<string, OperationCost>;
+}
+
+/**
+ * Estimate the cost of every operation on a root type and store it on the operation
+ */
+export function applyOperationCosts(
+  operations: OperationType[],
+  rootType: IntrospectionType | undefined,
+  typeMap: Map<string, IntrospectionType>,
+  options: CostOptions = {}
+): void {
+  const model = createModel(typeMap, options);
+  for (const operation of operations) {
+    const field = rootType?.fields?.find((f) => f.name === operation.name);
+    operation.cost = field ? fieldCost(rootType!.name, field, model, model.maxDepth) : null;
+  }
+}
+
+/**
+ * Estimate the cost of selecting one root field with all of its nested fields
+ */
+export function estimateFieldCost(
+  parentType: string,
+  field: IntrospectionField,
+  typeMap: Map<string, IntrospectionType>,
+  options: CostOptions = {}
+): OperationCost {
+  const model = createModel(typeMap, options);
+  return fieldCost(parentType, field, model, model.maxDepth);
+}
+
+function createModel(typeMap: Map<string, IntrospectionType>, options: CostOptions): CostModel {
+  return {
+    typeMap,
+    maxDepth: options.maxDepth ?? DEFAULT_COST_DEPTH,
+    defaultListSize: options.defaultListSize ?? DEFAULT_LIST_SIZE,
+    fieldCosts: options.fieldCosts ?? {},
+    objectFieldCost: options.objectFieldCost ?? 1,
+    scalarFieldCost: options.scalarFieldCost ?? 0,
+    memo: new Map(),
+  };
+}
+
+/**
+ * Cost of one field: its own cost plus its result's cost times the list size
+ */
+function fieldCost(
+  parentType: string,
+  field: IntrospectionField,
+  model: CostModel,
+  remaining: number,
+  insideWrapper = false
+): OperationCost {
+  const { typeName, isList } = unwrapType(field.type);
+  const type = model.typeMap.get(typeName);
+  const composite = !!type && isComposite(type);
+
+  const ownCost =
+    model.fieldCosts[`${parentType}.${field.name}`] ??
+    (composite ? model.objectFieldCost : model.scalarFieldCost);
+
+  if (!type || !composite) {
+    return { depth: 1, breadth: 0, nodeCount: 0, cost: ownCost };
+  }
+
+  // A connection's page size is applied once, on the field returning it
+  const isWrapper = type.kind === "OBJECT" && detectListWrapper(type, model.typeMap) !== null;
+  const multiplier = insideWrapper ? 1 : isList || isWrapper ? listSize(field, model) : 1;
+
+  const child =
+    remaining > 0 ? typeCost(type, model, remaining - 1) : { depth: 0, breadth: 0, nodeCount: 0, cost: 0 };
+
+  return {
+    depth: 1 + child.depth,
+    breadth: child.breadth,
+    nodeCount: multiplier * (1 + child.nodeCount),
+    cost: ownCost + multiplier * child.cost,
+  };
+}
+
+/**
+ * Cost of one instance of a type with every field selected; unions take
+ * their most expensive member
+ */
+function typeCost(type: IntrospectionType, model: CostModel, remaining: number): OperationCost {
+  const key = `${type.name}:${remaining}`;
+  const cached = model.memo.get(key);
+  if (cached) return cached;
+
+  let result: OperationCost;
+  if (type.kind === "UNION") {
+    const members = (type.possibleTypes ?? [])
+      .map((ref) => (ref.name ? model.typeMap.get(ref.name) : undefined))
+      .filter((member): member is IntrospectionType => member !== undefined)
+      .map((member) => typeCost(member, model, remaining));
+    result = members.reduce(
+      (max, cost) => (cost.cost > max.cost ? cost : max),
+      { depth: 0, breadth: 0, nodeCount: 0, cost: 0 }
+    );
+  } else {
+    const fields = (type.fields ?? []).filter((f) => !f.name.startsWith("__"));
+    const isWrapper = type.kind === "OBJECT" && detectListWrapper(type, model.typeMap) !== null;
+    result = { depth: 0, breadth: fields.length, nodeCount: 0, cost: 0 };
+
+    for (const field of fields) {
+      const cost = fieldCost(type.name, field, model, remaining, isWrapper);
+      result.depth = Math.max(result.depth, cost.depth);
+      result.breadth = Math.max(result.breadth, cost.breadth);
+      result.nodeCount += cost.nodeCount;
+      result.cost += cost.cost;
+    }
+  }
+
+  model.memo.set(key, result);
+  return result;
+}
+
+/**
+ * Items per list: the default of a page size argument, else the configured default
+ */
+function listSize(field: IntrospectionField, model: CostModel): number {
+  for (const arg of field.args) {
+    if (!PAGE_SIZE_ARGS.includes(arg.name) || arg.defaultValue === null) continue;
+    const size = Number.parseInt(arg.defaultValue, 10);
+    if (Number.isFinite(size) && size >= 0) return size;
+  }
+  return model.defaultListSize;
+}
+
+function isComposite(type: IntrospectionType): boolean {
+  return type.kind === "OBJECT" || type.kind === "INTERFACE" || type.kind === "UNION";
+}
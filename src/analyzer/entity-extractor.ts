@@ -8,14 +8,14 @@ import type {
   EntityType,
   FieldInfo,
   EntityCharacteristics,
+  FederationTypeInfo,
+  ClassifiedTrait,
+  RootTypeNames,
 } from "../types.js";
 
-import {
-  BUILT_IN_TYPES,
-  VOLATILE_FIELD_PATTERNS,
-  USER_SPECIFIC_PATTERNS,
-  SENSITIVE_FIELD_PATTERNS,
-} from "./constants.js";
+import { BUILT_IN_TYPES, CONVENTIONAL_ROOT_TYPES, isFederationInternalType } from "./constants.js";
+import { classifyType, type ClassifierOptions } from "./classifier.js";
+import { resolveEntityKey, type EntityIdentityOptions } from "./identity.js";
 import { unwrapType } from "./type-utils.js";
 
 /**
@@ -23,9 +23,14 @@ import { unwrapType } from "./type-utils.js";
  */
 export function extractEntities(
   types: IntrospectionType[],
-  typeMap: Map<string, IntrospectionType>
+  typeMap: Map<string, IntrospectionType>,
+  federation: Map<string, FederationTypeInfo> = new Map(),
+  identity: EntityIdentityOptions = {},
+  classifier: ClassifierOptions = {},
+  rootTypes: RootTypeNames = CONVENTIONAL_ROOT_TYPES
 ): EntityType[] {
   const entities: EntityType[] = [];
+  const roots = new Set(Object.values(rootTypes).filter((name): name is string => name !== null));
 
   for (const type of types) {
     // Skip built-in types and non-object types
@@ -33,14 +38,18 @@ export function extractEntities(
       continue;
     }
 
+    if (isFederationInternalType(type.name)) {
+      continue;
+    }
+
     if (type.kind !== "OBJECT" || !type.fields) {
       continue;
     }
 
-    // Check if this type has an ID field (makes it an entity)
-    const hasId = type.fields.some(
-      (f) => f.name === "id" || f.name === "_id" || f.name === "ID"
-    );
+    // An identity key makes it an entity
+    const federationInfo = federation.get(type.name);
+    const { keyFields, keySource } = resolveEntityKey(type, federationInfo, identity);
+    const hasId = keyFields.length > 0;
 
     // Extract field information
     const fields = type.fields.map((f) => extractFieldInfo(f));
@@ -49,16 +58,24 @@ export function extractEntities(
     const references = findReferencedTypes(type.fields, typeMap);
 
     // Analyze characteristics
-    const characteristics = analyzeCharacteristics(type, fields);
+    const { characteristics, fieldTraits } = analyzeCharacteristics(type, fields, classifier, roots);
+    for (const field of fields) {
+      field.traits = fieldTraits[field.name] ?? [];
+    }
 
     entities.push({
       name: type.name,
       description: type.description,
       hasId,
+      keyFields,
+      keySource,
+      subgraph: federationInfo?.owner ?? null,
+      ...(federationInfo ? { federation: federationInfo } : {}),
       fields,
       references,
       referencedBy: [], // Will be filled in later
       characteristics,
+      pagination: null, // Filled in by pagination detection
     });
   }
 
@@ -68,7 +85,7 @@ export function extractEntities(
 /**
  * Extract field information from an introspection field
  */
-function extractFieldInfo(field: IntrospectionField): FieldInfo {
+export function extractFieldInfo(field: IntrospectionField): FieldInfo {
   const { typeName, isNonNull, isList } = unwrapType(field.type);
 
   return {
@@ -92,13 +109,16 @@ function findReferencedTypes(
   for (const field of fields) {
     const { typeName } = unwrapType(field.type);
 
-    // Check if this is a reference to another object type
+    // Check if this is a reference to another object or abstract type
     const referencedType = typeMap.get(typeName);
     if (
       referencedType &&
-      referencedType.kind === "OBJECT" &&
+      (referencedType.kind === "OBJECT" ||
+        referencedType.kind === "INTERFACE" ||
+        referencedType.kind === "UNION") &&
       !BUILT_IN_TYPES.has(typeName) &&
-      !typeName.startsWith("__")
+      !typeName.startsWith("__") &&
+      !isFederationInternalType(typeName)
     ) {
       references.add(typeName);
     }
@@ -112,38 +132,21 @@ function findReferencedTypes(
  */
 function analyzeCharacteristics(
   type: IntrospectionType,
-  fields: FieldInfo[]
-): EntityCharacteristics {
-  const fieldNames = fields.map((f) => f.name.toLowerCase());
-
-  const isVolatile = VOLATILE_FIELD_PATTERNS.some((pattern) =>
-    fieldNames.some((name) => name.includes(pattern.toLowerCase()))
-  );
-
-  const isUserSpecific = USER_SPECIFIC_PATTERNS.some((pattern) =>
-    fieldNames.some((name) => name.includes(pattern.toLowerCase()))
-  );
-
-  const hasSensitiveFields = SENSITIVE_FIELD_PATTERNS.some((pattern) =>
-    fieldNames.some((name) => name.includes(pattern.toLowerCase()))
-  );
-
-  const isCollection =
-    type.name.endsWith("Connection") ||
-    type.name.endsWith("Edge") ||
-    type.name.endsWith("List") ||
-    type.name.endsWith("Page");
+  fields: FieldInfo[],
+  classifier: ClassifierOptions,
+  rootTypes: Set<string>
+): { characteristics: EntityCharacteristics; fieldTraits: Record<string, ClassifiedTrait[]> } {
+  const { traits, scores, fields: fieldTraits } = classifyType(type, fields, classifier);
 
-  const isRootType =
-    type.name === "Query" ||
-    type.name === "Mutation" ||
-    type.name === "Subscription";
+  const isRootType = rootTypes.has(type.name);
 
   return {
-    isVolatile,
-    isUserSpecific,
-    isCollection,
-    hasSensitiveFields,
-    isRootType,
+    characteristics: {
+      ...traits,
+      isRootType,
+      hasSubscription: false,
+      scores,
+    },
+    fieldTraits,
   };
 }
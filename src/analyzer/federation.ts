@@ -0,0 +1,288 @@
+/**
+ * Apollo Federation metadata extraction
+ *
+ * Reads @key, @external, @requires and @shareable from subgraph SDL, and
+ * @join__* directives from supergraph SDL. Introspection doesn't expose
+ * applied directives, so this works from SDL only.
+ */
+
+import type { FederationKey, FederationTypeInfo } from "../types.js";
+import type { DirectiveNode, DocumentNode, TypeDefinitionNode } from "../sdl/ast.js";
+
+import { parseSDL } from "../sdl/parser.js";
+import { tokenize } from "../sdl/lexer.js";
+import { getDirectiveArguments } from "../sdl/values.js";
+
+/**
+ * SDL to read federation metadata from
+ */
+export interface FederationSource {
+  /** Subgraph SDL (e.g., from `_service { sdl }`) or supergraph SDL */
+  sdl: string | DocumentNode;
+
+  /** Subgraph name. Not needed for supergraph SDL, which names its subgraphs. */
+  subgraph?: string;
+}
+
+/**
+ * Extract federation metadata per type from subgraph and/or supergraph SDL
+ */
+export function extractFederationMetadata(
+  sources: FederationSource[]
+): Map<string, FederationTypeInfo> {
+  const metadata = new Map<string, FederationTypeInfo>();
+
+  sources.forEach((source, i) => {
+    const document =
+      typeof source.sdl === "string"
+        ? parseSDL(source.sdl, source.subgraph ?? `federation source #${i + 1}`)
+        : source.sdl;
+
+    const graphNames = readJoinGraphs(document);
+    if (graphNames) {
+      collectSupergraph(document, graphNames, metadata);
+    } else {
+      collectSubgraph(document, source.subgraph ?? null, metadata);
+    }
+  });
+
+  return metadata;
+}
+
+function infoFor(
+  metadata: Map<string, FederationTypeInfo>,
+  typeName: string
+): FederationTypeInfo {
+  let info = metadata.get(typeName);
+  if (!info) {
+    info = {
+      keys: [],
+      owner: null,
+      subgraphs: [],
+      externalFields: [],
+      requiresFields: {},
+      shareableFields: [],
+    };
+    metadata.set(typeName, info);
+  }
+  return info;
+}
+
+function addUnique(list: string[], value: string | null): void {
+  if (value !== null && !list.includes(value)) {
+    list.push(value);
+  }
+}
+
+/**
+ * Directives may be imported under a namespace (e.g. `@federation__key`)
+ */
+function findDirectives(directives: DirectiveNode[], name: string): DirectiveNode[] {
+  return directives.filter((d) => d.name === name || d.name === `federation__${name}`);
+}
+
+function isObjectLike(
+  node: TypeDefinitionNode
+): node is Extract<TypeDefinitionNode, { fields: unknown; interfaces: unknown }> {
+  return node.kind === "ObjectTypeDefinition" || node.kind === "InterfaceTypeDefinition";
+}
+
+// =============================================================================
+// SUBGRAPH SDL
+// =============================================================================
+
+function collectSubgraph(
+  document: DocumentNode,
+  subgraph: string | null,
+  metadata: Map<string, FederationTypeInfo>
+): void {
+  for (const definition of document.definitions) {
+    if (definition.kind === "SchemaDefinition" || definition.kind === "DirectiveDefinition") {
+      continue;
+    }
+    if (!isObjectLike(definition)) continue;
+
+    const keys = findDirectives(definition.directives, "key").map((directive): FederationKey => {
+      const args = getDirectiveArguments(directive);
+      const fields = typeof args.fields === "string" ? args.fields : "";
+      return {
+        fields,
+        fieldPaths: parseFieldSet(fields),
+        resolvable: args.resolvable !== false,
+        subgraph,
+      };
+    });
+
+    const typeShareable = findDirectives(definition.directives, "shareable").length > 0;
+    const externalFields: string[] = [];
+    const requiresFields: Record<string, string> = {};
+    const shareableFields: string[] = [];
+
+    for (const field of definition.fields) {
+      if (findDirectives(field.directives, "external").length > 0) {
+        externalFields.push(field.name);
+      }
+      const requires = findDirectives(field.directives, "requires")[0];
+      if (requires) {
+        const fields = getDirectiveArguments(requires).fields;
+        if (typeof fields === "string") {
+          requiresFields[field.name] = fields;
+        }
+      }
+      if (typeShareable || findDirectives(field.directives, "shareable").length > 0) {
+        shareableFields.push(field.name);
+      }
+    }
+
+    const hasFederationInfo =
+      keys.length > 0 ||
+      externalFields.length > 0 ||
+      shareableFields.length > 0 ||
+      Object.keys(requiresFields).length > 0;
+    if (!hasFederationInfo && !metadata.has(definition.name)) continue;
+
+    const info = infoFor(metadata, definition.name);
+    info.keys.push(...keys);
+    addUnique(info.subgraphs, subgraph);
+    externalFields.forEach((f) => addUnique(info.externalFields, f));
+    shareableFields.forEach((f) => addUnique(info.shareableFields, f));
+    Object.assign(info.requiresFields, requiresFields);
+
+    // Fed 1 marks types a subgraph doesn't own with `extend` or @extends
+    const isExtension =
+      definition.extend || findDirectives(definition.directives, "extends").length > 0;
+    if (!info.owner && !isExtension && keys.some((k) => k.resolvable)) {
+      info.owner = subgraph;
+    }
+  }
+}
+
+// =============================================================================
+// SUPERGRAPH SDL
+// =============================================================================
+
+/**
+ * Map `join__Graph` enum values to subgraph names, or null if the document
+ * is not a supergraph
+ */
+function readJoinGraphs(document: DocumentNode): Map<string, string> | null {
+  const graphEnum = document.definitions.find(
+    (d) => d.kind === "EnumTypeDefinition" && d.name === "join__Graph"
+  );
+  if (!graphEnum || graphEnum.kind !== "EnumTypeDefinition") {
+    return null;
+  }
+
+  const graphs = new Map<string, string>();
+  for (const value of graphEnum.values) {
+    const directive = value.directives.find((d) => d.name === "join__graph");
+    const name = directive ? getDirectiveArguments(directive).name : undefined;
+    graphs.set(value.name, typeof name === "string" ? name : value.name.toLowerCase());
+  }
+  return graphs;
+}
+
+function collectSupergraph(
+  document: DocumentNode,
+  graphNames: Map<string, string>,
+  metadata: Map<string, FederationTypeInfo>
+): void {
+  const graphName = (value: unknown) =>
+    typeof value === "string" ? graphNames.get(value) ?? value.toLowerCase() : null;
+
+  for (const definition of document.definitions) {
+    if (definition.kind === "SchemaDefinition" || definition.kind === "DirectiveDefinition") {
+      continue;
+    }
+    if (!isObjectLike(definition)) continue;
+
+    const joinTypes = definition.directives.filter((d) => d.name === "join__type");
+    if (joinTypes.length === 0) continue;
+
+    const info = infoFor(metadata, definition.name);
+    let firstOwner: string | null = null;
+
+    for (const directive of joinTypes) {
+      const args = getDirectiveArguments(directive);
+      const subgraph = graphName(args.graph);
+      addUnique(info.subgraphs, subgraph);
+
+      if (typeof args.key === "string") {
+        const key: FederationKey = {
+          fields: args.key,
+          fieldPaths: parseFieldSet(args.key),
+          resolvable: args.resolvable !== false,
+          subgraph,
+        };
+        info.keys.push(key);
+        if (!firstOwner && key.resolvable && args.extension !== true) {
+          firstOwner = subgraph;
+        }
+      }
+    }
+
+    // Fed 1 supergraphs name the owner explicitly
+    const joinOwner = definition.directives.find((d) => d.name === "join__owner");
+    info.owner = joinOwner ? graphName(getDirectiveArguments(joinOwner).graph) : firstOwner;
+
+    for (const field of definition.fields) {
+      const joinFields = field.directives.filter((d) => d.name === "join__field");
+      const resolvingGraphs = new Set<string>();
+
+      for (const directive of joinFields) {
+        const args = getDirectiveArguments(directive);
+        if (args.external === true) {
+          addUnique(info.externalFields, field.name);
+        } else if (typeof args.graph === "string") {
+          resolvingGraphs.add(args.graph);
+        }
+        if (typeof args.requires === "string") {
+          info.requiresFields[field.name] = args.requires;
+        }
+      }
+
+      if (resolvingGraphs.size > 1) {
+        addUnique(info.shareableFields, field.name);
+      }
+    }
+  }
+}
+
+// =============================================================================
+// FIELD SETS
+// =============================================================================
+
+/**
+ * Parse a federation field set into leaf field paths, e.g.
+ * "organization { id } code" -> ["organization.id", "code"]
+ */
+export function parseFieldSet(fieldSet: string): string[] {
+  const paths: string[] = [];
+  const parents: string[] = [];
+  let pending: string | null = null;
+
+  const flush = () => {
+    if (pending !== null) {
+      paths.push([...parents, pending].join("."));
+      pending = null;
+    }
+  };
+
+  for (const token of tokenize({ name: "field set", body: fieldSet })) {
+    if (token.kind === "Name") {
+      flush();
+      pending = token.value;
+    } else if (token.kind === "{") {
+      if (pending !== null) {
+        parents.push(pending);
+        pending = null;
+      }
+    } else if (token.kind === "}") {
+      flush();
+      parents.pop();
+    }
+  }
+  flush();
+
+  return paths;
+}
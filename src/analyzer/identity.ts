@@ -0,0 +1,113 @@
+/**
+ * Entity identity resolution
+ *
+ * Decides which fields identify an instance of a type, so invalidations
+ * can target single instances instead of every cached entry of the type.
+ */
+
+import type {
+  EntityKeySource,
+  FederationTypeInfo,
+  IntrospectionType,
+} from "../types.js";
+
+import { ID_FIELD_NAMES } from "./constants.js";
+import { unwrapType } from "./type-utils.js";
+
+/**
+ * How entity keys are chosen
+ */
+export interface EntityIdentityOptions {
+  /**
+   * Identity field names to look for, in order of preference. An array entry
+   * is a composite key that matches when the type has all of its fields,
+   * e.g. `["uuid", "slug", ["tenantId", "code"]]` (default: id, _id, ID)
+   */
+  idFields?: Array<string | string[]>;
+
+  /** Explicit keys per type name, e.g. `{ Product: ["sku"] }` */
+  keys?: Record<string, string[]>;
+
+  /** Use the `id` of types implementing the Relay `Node` interface (default: true) */
+  inferNodeInterface?: boolean;
+
+  /** Name of the Relay node interface (default: "Node") */
+  nodeInterface?: string;
+
+  /** Fall back to the first non-null `ID!` field (default: true) */
+  inferIdScalars?: boolean;
+
+  /**
+   * Custom resolver, consulted first. Return key field names, or null to
+   * use the built-in rules.
+   */
+  resolve?: (type: IntrospectionType) => string[] | null;
+}
+
+/**
+ * Key chosen for a type
+ */
+export interface ResolvedEntityKey {
+  keyFields: string[];
+  keySource: EntityKeySource | null;
+}
+
+/**
+ * Resolve the identity key of an object type.
+ *
+ * Precedence: custom resolver, explicit per-type key, federation @key,
+ * Node interface, configured identity fields, then a non-null ID field.
+ */
+export function resolveEntityKey(
+  type: IntrospectionType,
+  federation: FederationTypeInfo | undefined,
+  options: EntityIdentityOptions = {}
+): ResolvedEntityKey {
+  const fields = type.fields ?? [];
+  const fieldNames = new Set(fields.map((f) => f.name));
+
+  const custom = options.resolve?.(type);
+  if (custom && custom.length > 0) {
+    return { keyFields: custom, keySource: "custom" };
+  }
+
+  const configured = options.keys?.[type.name];
+  if (configured && configured.length > 0) {
+    return { keyFields: configured, keySource: "configured" };
+  }
+
+  const federationKey =
+    federation?.keys.find((k) => k.resolvable && k.fieldPaths.length > 0) ??
+    federation?.keys.find((k) => k.fieldPaths.length > 0);
+  if (federationKey) {
+    return { keyFields: federationKey.fieldPaths, keySource: "federation" };
+  }
+
+  const nodeInterface = options.nodeInterface ?? "Node";
+  if (
+    options.inferNodeInterface !== false &&
+    fieldNames.has("id") &&
+    type.interfaces?.some((i) => i.name === nodeInterface)
+  ) {
+    return { keyFields: ["id"], keySource: "node-interface" };
+  }
+
+  for (const candidate of options.idFields ?? ID_FIELD_NAMES) {
+    const keyFields = typeof candidate === "string" ? [candidate] : candidate;
+    if (keyFields.length > 0 && keyFields.every((name) => fieldNames.has(name))) {
+      return { keyFields, keySource: "id-field" };
+    }
+  }
+
+  if (options.inferIdScalars !== false) {
+    const idScalar = fields.find((f) => {
+      const { typeName, isNonNull, isList } = unwrapType(f.type);
+      return typeName === "ID" && isNonNull && !isList && f.args.length === 0;
+    });
+    if (idScalar) {
+      return { keyFields: [idScalar.name], keySource: "id-scalar" };
+    }
+  }
+
+  return { keyFields: [], keySource: null };
+}
@@ -5,30 +5,164 @@
  * that inform caching decisions.
  */
 
-import type { IntrospectionSchema, IntrospectionType, AnalyzedSchema } from "../types.js";
+import type {
+  IntrospectionSchema,
+  IntrospectionType,
+  AnalyzedSchema,
+  RootTypeNames,
+} from "../types.js";
 
+import type { DocumentNode } from "../sdl/ast.js";
+
+import { extractAbstractTypes } from "./abstract-types.js";
+import { applyOperationCosts, type CostOptions } from "./cost.js";
+import { applyCacheHints, collectCacheHints } from "./cache-hints.js";
 import { extractEntities } from "./entity-extractor.js";
-import { extractOperations } from "./operation-extractor.js";
+import { extractFederationMetadata, type FederationSource } from "./federation.js";
+import type { ClassifierOptions } from "./classifier.js";
+import type { EntityIdentityOptions } from "./identity.js";
+import { applySubscriptions, extractOperations } from "./operation-extractor.js";
+import { applyPagination } from "./pagination.js";
 import { buildRelationships, enrichEntitiesWithRelationships } from "./relationship-builder.js";
 
 // Re-exports
-export { generateSchemaSummary } from "./summary-generator.js";
+export {
+  formatCacheHint,
+  formatCost,
+  generateSchemaSummary,
+  rankTypes,
+  summarizeSchema,
+  type SummaryOptions,
+} from "./summary-generator.js";
+export {
+  extractFederationMetadata,
+  parseFieldSet,
+  type FederationSource,
+} from "./federation.js";
+export {
+  classifyType,
+  splitTokens,
+  type Classification,
+  type ClassifierOptions,
+} from "./classifier.js";
+export {
+  ANALYZER_VERSION,
+  DEFAULT_CLASSIFIER_RULES,
+  DEFAULT_CLASSIFIER_THRESHOLD,
+} from "./constants.js";
+export {
+  ANALYSIS_FORMAT_VERSION,
+  deserializeAnalysis,
+  fingerprintTypes,
+  serializeAnalysis,
+  type DeserializeAnalysisOptions,
+  type SerializeAnalysisOptions,
+} from "./serialization.js";
+export {
+  detectFieldPagination,
+  detectListWrapper,
+  findListedTypes,
+  OFFSET_PAGINATION_ARGS,
+  RELAY_PAGINATION_ARGS,
+} from "./pagination.js";
+export {
+  applyOperationCosts,
+  DEFAULT_COST_DEPTH,
+  DEFAULT_LIST_SIZE,
+  estimateFieldCost,
+  PAGE_SIZE_ARGS,
+  type CostOptions,
+} from "./cost.js";
+export { ARGUMENT_ROLE_ORDER, classifyArgument, composeCacheKey } from "./arguments.js";
+export {
+  applyTraffic,
+  buildTrafficProfile,
+  parseOperationLog,
+  type ParsedOperationLog,
+  type TrafficOptions,
+} from "./traffic.js";
+export {
+  buildInvalidationGraph,
+  DEFAULT_EMBEDDING_DEPTH,
+  findEmbeddingTypes,
+  type EmbeddingOptions,
+} from "./invalidation-graph.js";
+export {
+  AFFECTED_TYPE_THRESHOLD,
+  inferMutationImpact,
+  singularize,
+} from "./mutation-impact.js";
+export { collectCacheHints, type DeclaredCacheHints } from "./cache-hints.js";
+export {
+  resolveEntityKey,
+  type EntityIdentityOptions,
+  type ResolvedEntityKey,
+} from "./identity.js";
+
+/**
+ * Options for schema analysis
+ */
+export interface AnalyzeSchemaOptions {
+  /**
+   * Subgraph or supergraph SDL carrying federation directives. Entities then
+   * use their @key fields as identity and record their owning subgraph.
+   */
+  federation?: FederationSource[];
+
+  /** How entity keys are chosen (custom ID fields, composite keys, Node interface) */
+  identity?: EntityIdentityOptions;
+
+  /** Extra or replacement rules for classifying volatile, user-specific, sensitive and collection types */
+  classifier?: ClassifierOptions;
+
+  /**
+   * SDL carrying applied directives, which introspection drops. Its
+   * @cacheControl hints (and those in `federation` SDL) become each entity's
+   * `cacheControl`.
+   */
+  sdl?: Array<string | DocumentNode>;
+
+  /** Depth, default list size and per-field costs for operation cost estimates */
+  cost?: CostOptions;
+}
 
 /**
  * Analyzes a GraphQL schema and extracts information useful for caching decisions.
  *
  * @param schema - The introspection schema to analyze
+ * @param options - Analysis options
  * @returns Analyzed schema with entities, operations, and relationships
  */
-export function analyzeSchema(schema: IntrospectionSchema): AnalyzedSchema {
+export function analyzeSchema(
+  schema: IntrospectionSchema,
+  options: AnalyzeSchemaOptions = {}
+): AnalyzedSchema {
   // Build type map for quick lookups
   const typeMap = new Map<string, IntrospectionType>();
   for (const type of schema.types) {
     typeMap.set(type.name, type);
   }
 
-  // Extract entities (object types with ID fields)
-  const entities = extractEntities(schema.types, typeMap);
+  const federation = extractFederationMetadata(options.federation ?? []);
+
+  const rootTypes: RootTypeNames = {
+    query: schema.queryType?.name ?? null,
+    mutation: schema.mutationType?.name ?? null,
+    subscription: schema.subscriptionType?.name ?? null,
+  };
+
+  // Extract entities (object types with an identity key)
+  const entities = extractEntities(
+    schema.types,
+    typeMap,
+    federation,
+    options.identity,
+    options.classifier,
+    rootTypes
+  );
+
+  // Detect Relay connections and page objects
+  applyPagination(entities, typeMap);
 
   // Extract query operations
   const queries = schema.queryType
@@ -40,12 +174,45 @@ export function analyzeSchema(schema: IntrospectionSchema): AnalyzedSchema {
     ? extractOperations(
         typeMap.get(schema.mutationType.name),
         typeMap,
-        "mutation"
+        "mutation",
+        entities
       )
     : [];
 
-  // Build relationship graph
-  const relationships = buildRelationships(entities, typeMap);
+  // Extract subscription operations and mark the types they stream
+  const subscriptions = schema.subscriptionType
+    ? extractOperations(
+        typeMap.get(schema.subscriptionType.name),
+        typeMap,
+        "subscription",
+        entities
+      )
+    : [];
+  applySubscriptions(entities, subscriptions);
+
+  // Estimate operation costs
+  for (const [operations, root] of [
+    [queries, schema.queryType],
+    [mutations, schema.mutationType],
+    [subscriptions, schema.subscriptionType],
+  ] as const) {
+    if (root) {
+      applyOperationCosts(operations, typeMap.get(root.name), typeMap, options.cost);
+    }
+  }
+
+  // Extract interfaces and unions
+  const abstractTypes = extractAbstractTypes(schema.types, typeMap);
+
+  // Build relationship graph (also fills abstract types' referencedBy)
+  const relationships = buildRelationships(entities, typeMap, abstractTypes);
+
+  // Resolve @cacheControl hints
+  const hints = collectCacheHints([
+    ...(options.sdl ?? []),
+    ...(options.federation ?? []).map((source) => source.sdl),
+  ]);
+  applyCacheHints(entities, abstractTypes, typeMap, hints);
 
   // Enrich entities with relationship info
   enrichEntitiesWithRelationships(entities, relationships);
@@ -54,6 +221,9 @@ export function analyzeSchema(schema: IntrospectionSchema): AnalyzedSchema {
     entities,
     queries,
     mutations,
+    subscriptions,
+    rootTypes,
+    abstractTypes,
     relationships,
     typeMap,
   };
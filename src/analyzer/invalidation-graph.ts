@@ -0,0 +1,125 @@
+/**
+ * Transitive invalidation graph
+ *
+ * Walks type relationships backwards to find the types whose cached
+ * responses embed a given type, e.g. a new Comment makes cached Posts
+ * (via Post.comments) stale.
+ */
+
+import type { AnalyzedSchema, EmbeddingPath, TypeRelationship } from "../types.js";
+
+/**
+ * Options for the embedding traversal
+ */
+export interface EmbeddingOptions {
+  /** How many relationship hops to follow upwards (default: 2) */
+  maxDepth?: number;
+}
+
+export const DEFAULT_EMBEDDING_DEPTH = 2;
+
+/**
+ * Find the types that embed `typeName` (or any of several types), up to
+ * `maxDepth` hops away.
+ *
+ * Breadth-first from all targets at once, so the depth budget is shared and
+ * each type is reported once with its shortest path. Cycles are cut by
+ * never revisiting a type. Root types are skipped since their responses
+ * are cached per operation, not per type, and so are types no query can
+ * reach (mutation payloads), since they are never cached.
+ */
+export function findEmbeddingTypes(
+  schema: AnalyzedSchema,
+  typeName: string | string[],
+  options: EmbeddingOptions = {}
+): EmbeddingPath[] {
+  const maxDepth = options.maxDepth ?? DEFAULT_EMBEDDING_DEPTH;
+  const parentsOf = indexParents(schema.relationships);
+  const rootTypes = new Set(
+    schema.entities.filter((e) => e.characteristics.isRootType).map((e) => e.name)
+  );
+  const cacheable = queryReachableTypes(schema);
+
+  const targets = typeof typeName === "string" ? [typeName] : typeName;
+  const found: EmbeddingPath[] = [];
+  const visited = new Set(targets);
+  let frontier = targets.map((target) => ({ type: target, path: [] as string[], source: target }));
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: typeof frontier = [];
+
+    for (const { type, path, source } of frontier) {
+      for (const rel of parentsOf.get(type) ?? []) {
+        if (visited.has(rel.from) || rootTypes.has(rel.from) || !cacheable.has(rel.from)) continue;
+        visited.add(rel.from);
+
+        const step = rel.via ? `${rel.from}.${rel.fieldName} (${rel.via})` : `${rel.from}.${rel.fieldName}`;
+        const parentPath = [step, ...path];
+        found.push({ type: rel.from, path: parentPath, depth, source });
+        next.push({ type: rel.from, path: parentPath, source });
+      }
+    }
+
+    frontier = next;
+  }
+
+  return found;
+}
+
+/**
+ * Embedding types for every type a mutation affects, keyed by the affected type
+ */
+export function buildInvalidationGraph(
+  schema: AnalyzedSchema,
+  options: EmbeddingOptions = {}
+): Map<string, EmbeddingPath[]> {
+  const graph = new Map<string, EmbeddingPath[]>();
+  for (const mutation of schema.mutations) {
+    for (const typeName of mutation.affectedTypes) {
+      if (!graph.has(typeName)) {
+        graph.set(typeName, findEmbeddingTypes(schema, typeName, options));
+      }
+    }
+  }
+  return graph;
+}
+
+/**
+ * Types a query response can contain: everything reachable from the query
+ * root through relationships
+ */
+function queryReachableTypes(schema: AnalyzedSchema): Set<string> {
+  const root = schema.rootTypes.query;
+  if (!root) return new Set();
+
+  const childrenOf = new Map<string, string[]>();
+  for (const rel of schema.relationships) {
+    if (rel.direction !== "outgoing") continue;
+    const list = childrenOf.get(rel.from) ?? [];
+    list.push(rel.to);
+    childrenOf.set(rel.from, list);
+  }
+
+  const reachable = new Set([root]);
+  const queue = [root];
+  for (let type = queue.pop(); type !== undefined; type = queue.pop()) {
+    for (const child of childrenOf.get(type) ?? []) {
+      if (!reachable.has(child)) {
+        reachable.add(child);
+        queue.push(child);
+      }
+    }
+  }
+  return reachable;
+}
+
+function indexParents(relationships: TypeRelationship[]): Map<string, TypeRelationship[]> {
+  const parents = new Map<string, TypeRelationship[]>();
+  for (const rel of relationships) {
+    if (rel.direction !== "outgoing") continue;
+    const list = parents.get(rel.to) ?? [];
+    list.push(rel);
+    parents.set(rel.to, list);
+  }
+  return parents;
+}
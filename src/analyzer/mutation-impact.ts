@@ -0,0 +1,240 @@
+/**
+ * Mutation impact inference
+ *
+ * Infers which entities a mutation changes from its return type (walking
+ * payload wrappers), its input object types and its name, including
+ * snake_case and Hasura-style names and plurals.
+ */
+
+import type {
+  AffectedType,
+  AffectedTypeReason,
+  EntityType,
+  IntrospectionField,
+  IntrospectionType,
+} from "../types.js";
+
+import { MUTATION_VERBS } from "./constants.js";
+import { splitTokens } from "./classifier.js";
+import { unwrapType } from "./type-utils.js";
+
+/** Affected types below this confidence are not used for invalidations */
+export const AFFECTED_TYPE_THRESHOLD = 0.5;
+
+/** Confidence of each kind of evidence */
+const REASON_CONFIDENCE: Record<AffectedTypeReason, number> = {
+  "return-type": 0.9,
+  "payload-field": 0.85,
+  "mutation-name": 0.7,
+  "input-type": 0.6,
+  "related-name": 0.5,
+};
+
+/** Names of mutation payload wrappers, which are not affected themselves */
+const PAYLOAD_TYPE_NAME = /(Payload|Result|Response|Output)$/;
+
+/** Name tokens that end the entity part of a mutation name (e.g. "deletePostsByAuthor") */
+const NAME_STOP_TOKENS = new Set(["by", "pk", "one", "many", "to", "from", "in", "on", "for", "with"]);
+
+/** Name tokens that point at a related entity (e.g. "addItemToCart") */
+const RELATED_TOKENS = new Set(["to", "from", "in", "on"]);
+
+/** Tokens of generated input type names that don't name the entity */
+const INPUT_NOISE_TOKENS = new Set([
+  "input",
+  "set",
+  "pk",
+  "columns",
+  "where",
+  "bool",
+  "exp",
+  "inc",
+  "obj",
+  "rel",
+  "arr",
+  "data",
+  "insert",
+  "order",
+  "by",
+  "on",
+  "conflict",
+  "unique",
+  "args",
+  "patch",
+  "changes",
+]);
+
+/**
+ * Infer the entities a mutation affects, with a confidence and reason for each
+ */
+export function inferMutationImpact(
+  field: IntrospectionField,
+  typeMap: Map<string, IntrospectionType>,
+  entities: EntityType[]
+): AffectedType[] {
+  const entityIndex = buildEntityIndex(entities);
+  const keyed = new Set(entities.filter((e) => e.hasId).map((e) => e.name));
+  const found = new Map<string, AffectedType>();
+
+  const add = (typeName: string, reason: AffectedTypeReason, detail: string) => {
+    const confidence = REASON_CONFIDENCE[reason];
+    const existing = found.get(typeName);
+    if (!existing) {
+      found.set(typeName, { type: typeName, confidence, reason, details: [detail] });
+      return;
+    }
+    // Independent evidence reinforces
+    existing.confidence = round(1 - (1 - existing.confidence) * (1 - confidence));
+    if (confidence > REASON_CONFIDENCE[existing.reason]) {
+      existing.reason = reason;
+    }
+    existing.details.push(detail);
+  };
+
+  // Return type, walking payload wrappers and abstract types
+  const { typeName: returnType } = unwrapType(field.type);
+  const returnTypeInfo = typeMap.get(returnType);
+  if (returnTypeInfo && entityIndex.byName.has(returnType)) {
+    if (keyed.has(returnType)) {
+      add(returnType, "return-type", `returns ${returnType}`);
+    } else if (returnTypeInfo.fields?.some((f) => isEntityField(f, typeMap, keyed))) {
+      walkPayload(returnTypeInfo, typeMap, keyed, add);
+    } else if (!PAYLOAD_TYPE_NAME.test(returnType)) {
+      add(returnType, "return-type", `returns ${returnType}`);
+    }
+  } else if (returnTypeInfo && (returnTypeInfo.kind === "UNION" || returnTypeInfo.kind === "INTERFACE")) {
+    for (const member of returnTypeInfo.possibleTypes ?? []) {
+      const memberType = member.name ? typeMap.get(member.name) : undefined;
+      if (!memberType) continue;
+      if (keyed.has(memberType.name)) {
+        add(memberType.name, "return-type", `returns ${returnType} (member ${memberType.name})`);
+      } else {
+        walkPayload(memberType, typeMap, keyed, add);
+      }
+    }
+  }
+
+  // Input object types named after an entity (e.g. UpdateUserInput, users_set_input)
+  for (const arg of field.args) {
+    const argType = typeMap.get(unwrapType(arg.type).typeName);
+    if (argType?.kind !== "INPUT_OBJECT") continue;
+
+    const tokens = splitTokens(argType.name).filter(
+      (t) => !INPUT_NOISE_TOKENS.has(t) && !MUTATION_VERBS.includes(t)
+    );
+    const match = matchEntity(tokens, entityIndex);
+    if (match) {
+      add(match, "input-type", `argument "${arg.name}" is ${argType.name}`);
+    }
+  }
+
+  // Mutation name (e.g. deletePosts, update_users_by_pk, addItemToCart)
+  const tokens = splitTokens(field.name);
+  if (tokens.length > 1 && MUTATION_VERBS.includes(tokens[0]!)) {
+    const rest = tokens.slice(1);
+    const stop = rest.findIndex((t) => NAME_STOP_TOKENS.has(t));
+    const subject = matchEntity(stop === -1 ? rest : rest.slice(0, stop), entityIndex);
+    if (subject) {
+      add(subject, "mutation-name", `name "${field.name}" targets ${subject}`);
+    }
+
+    if (stop !== -1 && RELATED_TOKENS.has(rest[stop]!)) {
+      const related = matchEntity(rest.slice(stop + 1), entityIndex);
+      if (related && related !== subject) {
+        add(related, "related-name", `name "${field.name}" also changes ${related}`);
+      }
+    }
+  }
+
+  return [...found.values()].sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Add keyed entities reachable from a payload type's fields (one level
+ * deep, plus one nested wrapper level)
+ */
+function walkPayload(
+  payload: IntrospectionType,
+  typeMap: Map<string, IntrospectionType>,
+  keyed: Set<string>,
+  add: (typeName: string, reason: AffectedTypeReason, detail: string) => void,
+  depth = 0
+): void {
+  for (const field of payload.fields ?? []) {
+    const { typeName } = unwrapType(field.type);
+    if (keyed.has(typeName)) {
+      add(typeName, "payload-field", `payload field ${payload.name}.${field.name}`);
+    } else if (depth === 0) {
+      const nested = typeMap.get(typeName);
+      if (nested?.kind === "OBJECT" && nested.name !== payload.name) {
+        walkPayload(nested, typeMap, keyed, add, depth + 1);
+      }
+    }
+  }
+}
+
+function isEntityField(
+  field: IntrospectionField,
+  typeMap: Map<string, IntrospectionType>,
+  keyed: Set<string>
+): boolean {
+  const typeName = unwrapType(field.type).typeName;
+  return keyed.has(typeName) && typeMap.get(typeName)?.kind === "OBJECT";
+}
+
+interface EntityIndex {
+  byName: Set<string>;
+  byNormalizedName: Map<string, string>;
+}
+
+/**
+ * Index entities by a case- and separator-insensitive name
+ */
+function buildEntityIndex(entities: EntityType[]): EntityIndex {
+  const byNormalizedName = new Map<string, string>();
+  for (const entity of entities) {
+    if (entity.characteristics.isRootType) continue;
+    byNormalizedName.set(normalize(entity.name), entity.name);
+  }
+  return {
+    byName: new Set(entities.filter((e) => !e.characteristics.isRootType).map((e) => e.name)),
+    byNormalizedName,
+  };
+}
+
+/**
+ * Find the entity named by a token sequence, trying it as written and
+ * singularized (e.g. ["blog", "posts"] -> "BlogPost", ["users"] -> "users" or "User")
+ */
+function matchEntity(tokens: string[], index: EntityIndex): string | null {
+  if (tokens.length === 0) return null;
+
+  const joined = tokens.join("");
+  const candidates = [
+    joined,
+    tokens.slice(0, -1).join("") + singularize(tokens[tokens.length - 1]!),
+  ];
+  for (const candidate of candidates) {
+    const match = index.byNormalizedName.get(candidate);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Naive English singularization for type names
+ */
+export function singularize(word: string): string {
+  if (/ies$/.test(word) && word.length > 4) return word.slice(0, -3) + "y";
+  if (/(ss|sh|ch|x|z)es$/.test(word)) return word.slice(0, -2);
+  if (/[^s]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+function normalize(name: string): string {
+  return name.replace(/[_\-]/g, "").toLowerCase();
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
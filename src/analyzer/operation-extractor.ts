@@ -1,29 +1,39 @@
 /**
- * Operation (query/mutation) extraction from GraphQL schema
+ * Operation (query/mutation/subscription) extraction from GraphQL schema
  */
 
 import type {
   IntrospectionType,
   OperationType,
   ArgumentInfo,
+  EntityType,
 } from "../types.js";
 
-import { BUILT_IN_TYPES, MUTATION_PATTERNS } from "./constants.js";
+import { classifyArgument, composeCacheKey } from "./arguments.js";
+import { FEDERATION_ROOT_FIELDS } from "./constants.js";
+import { AFFECTED_TYPE_THRESHOLD, inferMutationImpact } from "./mutation-impact.js";
+import { detectFieldPagination } from "./pagination.js";
 import { unwrapType } from "./type-utils.js";
 
 /**
- * Extract operations from a root type (Query or Mutation)
+ * Extract operations from a root type (Query, Mutation or Subscription)
  */
 export function extractOperations(
   rootType: IntrospectionType | undefined,
   typeMap: Map<string, IntrospectionType>,
-  operationType: "query" | "mutation"
+  operationType: "query" | "mutation" | "subscription",
+  entities: EntityType[] = []
 ): OperationType[] {
   if (!rootType || !rootType.fields) {
     return [];
   }
 
-  return rootType.fields.map((field) => {
+  // Federation's _service/_entities are gateway plumbing, not client operations
+  const fields = rootType.fields.filter(
+    (field) => operationType !== "query" || !FEDERATION_ROOT_FIELDS.has(field.name)
+  );
+
+  return fields.map((field) => {
     const { typeName, isList } = unwrapType(field.type);
 
     const args: ArgumentInfo[] = field.args.map((arg) => {
@@ -33,14 +43,16 @@ export function extractOperations(
         typeName: argType.typeName,
         isRequired: argType.isNonNull,
         description: arg.description,
+        ...classifyArgument({ name: arg.name, typeName: argType.typeName }),
       };
     });
 
-    // For mutations, try to infer affected types
-    const affectedTypes =
-      operationType === "mutation"
-        ? inferAffectedTypes(field.name, typeName, typeMap)
-        : [];
+    // For mutations, try to infer affected types; for subscriptions, the streamed types
+    const affectedTypeDetails =
+      operationType === "query" ? [] : inferMutationImpact(field, typeMap, entities);
+    const affectedTypes = affectedTypeDetails
+      .filter((affected) => affected.confidence >= AFFECTED_TYPE_THRESHOLD)
+      .map((affected) => affected.type);
 
     return {
       name: field.name,
@@ -49,42 +61,25 @@ export function extractOperations(
       returnsList: isList,
       arguments: args,
       affectedTypes,
+      affectedTypeDetails,
+      pagination: detectFieldPagination(field, typeMap),
+      cacheKey: operationType === "query" ? composeCacheKey(args) : null,
+      cost: null,
     };
   });
 }
 
 /**
- * Infer which types a mutation affects based on name and return type
+ * Mark the entities streamed by subscriptions as real-time
  */
-function inferAffectedTypes(
-  mutationName: string,
-  returnType: string,
-  typeMap: Map<string, IntrospectionType>
-): string[] {
-  const affected = new Set<string>();
-
-  // Add return type if it's an entity
-  const returnTypeInfo = typeMap.get(returnType);
-  if (
-    returnTypeInfo &&
-    returnTypeInfo.kind === "OBJECT" &&
-    !BUILT_IN_TYPES.has(returnType)
-  ) {
-    affected.add(returnType);
-  }
-
-  // Try to infer from mutation name patterns
-  const lowerName = mutationName.toLowerCase();
-  for (const [pattern, extractor] of Object.entries(MUTATION_PATTERNS)) {
-    if (lowerName.startsWith(pattern)) {
-      const types = extractor(mutationName);
-      for (const type of types) {
-        if (type && typeMap.has(type)) {
-          affected.add(type);
-        }
-      }
+export function applySubscriptions(
+  entities: EntityType[],
+  subscriptions: OperationType[]
+): void {
+  const streamed = new Set(subscriptions.flatMap((subscription) => subscription.affectedTypes));
+  for (const entity of entities) {
+    if (streamed.has(entity.name)) {
+      entity.characteristics.hasSubscription = true;
     }
   }
-
-  return [...affected];
 }
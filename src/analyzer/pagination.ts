@@ -0,0 +1,172 @@
+/**
+ * Pagination pattern detection
+ *
+ * Recognizes Relay connections (edges/node/pageInfo with first/after/last/before)
+ * and offset/limit pagination, and links each list to the entity it contains.
+ */
+
+import type {
+  EntityType,
+  IntrospectionField,
+  IntrospectionType,
+  OperationType,
+  PaginationInfo,
+} from "../types.js";
+
+import { unwrapType } from "./type-utils.js";
+
+/** Relay cursor arguments */
+export const RELAY_PAGINATION_ARGS = ["first", "after", "last", "before"];
+
+/** Offset pagination arguments */
+export const OFFSET_PAGINATION_ARGS = [
+  "offset",
+  "limit",
+  "skip",
+  "take",
+  "page",
+  "perPage",
+  "per_page",
+  "pageSize",
+  "page_size",
+];
+
+/** Field names holding the items of a page wrapper */
+const PAGE_ITEM_FIELDS = ["items", "nodes", "results", "data", "content", "records"];
+
+/** Field names marking a page wrapper */
+const PAGE_META_FIELD = /^(total(_?count)?|count|has_?more|has_?next(_?page)?|page(_?info)?|next_?(offset|page))$/i;
+
+/**
+ * Detect whether an object type wraps a paginated list: a Relay connection,
+ * a Relay edge, or an offset page object with items and counts
+ */
+export function detectListWrapper(
+  type: IntrospectionType,
+  typeMap: Map<string, IntrospectionType>
+): PaginationInfo | null {
+  if (type.kind !== "OBJECT" || !type.fields) return null;
+
+  const field = (name: string) => type.fields!.find((f) => f.name === name);
+  const objectType = (f: IntrospectionField | undefined) => {
+    if (!f) return null;
+    const target = typeMap.get(unwrapType(f.type).typeName);
+    return target && target.kind !== "SCALAR" && target.kind !== "ENUM" ? target : null;
+  };
+
+  // Relay edge: node + cursor
+  const edgeNode = objectType(field("node"));
+  if (edgeNode && field("cursor")) {
+    return { style: "relay", nodeType: edgeNode.name, connectionType: type.name, arguments: [] };
+  }
+
+  // Relay connection: edges { node } + pageInfo
+  const edges = field("edges");
+  const edgeType = objectType(edges);
+  if (edges && unwrapType(edges.type).isList && edgeType && field("pageInfo")) {
+    const node = objectType(edgeType.fields?.find((f) => f.name === "node"));
+    if (node) {
+      return { style: "relay", nodeType: node.name, connectionType: type.name, arguments: [] };
+    }
+  }
+
+  // Offset page: a list of items plus a total, count or has-more flag
+  const items = PAGE_ITEM_FIELDS.map(field).find(
+    (f) => f !== undefined && unwrapType(f.type).isList && objectType(f) !== null
+  );
+  if (items && type.fields.some((f) => PAGE_META_FIELD.test(f.name))) {
+    return {
+      style: "offset",
+      nodeType: objectType(items)!.name,
+      connectionType: type.name,
+      arguments: [],
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Detect how a field paginates, from its return type and arguments
+ */
+export function detectFieldPagination(
+  field: IntrospectionField,
+  typeMap: Map<string, IntrospectionType>
+): PaginationInfo | null {
+  const { typeName, isList } = unwrapType(field.type);
+  const argNames = field.args.map((a) => a.name);
+  const returnType = typeMap.get(typeName);
+  if (!returnType) return null;
+
+  const wrapper = isList ? null : detectListWrapper(returnType, typeMap);
+  if (wrapper && wrapper.connectionType === typeName && !isEdgeWrapper(returnType)) {
+    const known = wrapper.style === "relay" ? RELAY_PAGINATION_ARGS : OFFSET_PAGINATION_ARGS;
+    return { ...wrapper, arguments: argNames.filter((name) => known.includes(name)) };
+  }
+
+  const offsetArgs = argNames.filter((name) => OFFSET_PAGINATION_ARGS.includes(name));
+  if (isList && offsetArgs.length > 0 && returnType.kind !== "SCALAR" && returnType.kind !== "ENUM") {
+    return { style: "offset", nodeType: typeName, connectionType: null, arguments: offsetArgs };
+  }
+
+  return null;
+}
+
+function isEdgeWrapper(type: IntrospectionType): boolean {
+  return !!type.fields?.some((f) => f.name === "cursor") && !!type.fields?.some((f) => f.name === "node");
+}
+
+/**
+ * Record list wrappers on entities and mark them as collections
+ */
+export function applyPagination(
+  entities: EntityType[],
+  typeMap: Map<string, IntrospectionType>
+): void {
+  for (const entity of entities) {
+    const type = typeMap.get(entity.name);
+    const pagination = type ? detectListWrapper(type, typeMap) : null;
+    entity.pagination = pagination;
+
+    if (pagination) {
+      const score = entity.characteristics.scores.isCollection;
+      score.evidence.push({
+        rule: `collection:${pagination.style}-list`,
+        field: null,
+        weight: 1,
+      });
+      score.confidence = 1;
+      entity.characteristics.isCollection = true;
+    }
+  }
+}
+
+/**
+ * Entity names that queries return lists of, mapped to their list wrapper
+ * types (empty when only listed as a plain array)
+ */
+export function findListedTypes(
+  entities: EntityType[],
+  operations: OperationType[]
+): Map<string, string[]> {
+  const listed = new Map<string, string[]>();
+  const add = (info: PaginationInfo) => {
+    const wrappers = listed.get(info.nodeType) ?? [];
+    if (info.connectionType && !wrappers.includes(info.connectionType)) {
+      wrappers.push(info.connectionType);
+    }
+    listed.set(info.nodeType, wrappers);
+  };
+
+  for (const entity of entities) {
+    if (entity.pagination) add(entity.pagination);
+  }
+  for (const operation of operations) {
+    if (operation.pagination) {
+      add(operation.pagination);
+    } else if (operation.returnsList && !listed.has(operation.returnType)) {
+      listed.set(operation.returnType, []);
+    }
+  }
+  return listed;
+}
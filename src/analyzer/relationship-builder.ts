@@ -4,6 +4,7 @@
 
 import type {
   IntrospectionType,
+  AbstractType,
   EntityType,
   TypeRelationship,
 } from "../types.js";
@@ -11,14 +12,17 @@ import type {
 import { unwrapType } from "./type-utils.js";
 
 /**
- * Build relationships between entity types
+ * Build relationships between entity types. Fields returning an interface
+ * or union fan out to each concrete member entity.
  */
 export function buildRelationships(
   entities: EntityType[],
-  typeMap: Map<string, IntrospectionType>
+  typeMap: Map<string, IntrospectionType>,
+  abstractTypes: AbstractType[] = []
 ): TypeRelationship[] {
   const relationships: TypeRelationship[] = [];
   const entityNames = new Set(entities.map((e) => e.name));
+  const abstractMap = new Map(abstractTypes.map((a) => [a.name, a]));
 
   for (const entity of entities) {
     const type = typeMap.get(entity.name);
@@ -37,6 +41,25 @@ export function buildRelationships(
           direction: "outgoing",
         });
       }
+
+      const abstractType = abstractMap.get(typeName);
+      if (abstractType) {
+        for (const member of abstractType.possibleTypes) {
+          if (entityNames.has(member) && member !== entity.name) {
+            relationships.push({
+              from: entity.name,
+              to: member,
+              fieldName: field.name,
+              isList,
+              direction: "outgoing",
+              via: typeName,
+            });
+          }
+        }
+        if (!abstractType.referencedBy.includes(entity.name)) {
+          abstractType.referencedBy.push(entity.name);
+        }
+      }
     }
   }
 
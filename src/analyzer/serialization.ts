@@ -0,0 +1,402 @@
+/**
+ * Analysis serialization
+ *
+ * Saves an AnalyzedSchema as JSON in a versioned envelope and loads it back,
+ * rebuilding the typeMap, validating the payload and migrating older
+ * envelope versions.
+ */
+
+import { createHash } from "crypto";
+
+import type {
+  AffectedType,
+  AnalyzedSchema,
+  ClassifiedTrait,
+  EntityType,
+  IntrospectionType,
+  OperationType,
+  RootTypeNames,
+  SerializedAnalysis,
+  SerializedAnalysisData,
+  TraitScore,
+} from "../types.js";
+
+import { classifyArgument } from "./arguments.js";
+import { ANALYZER_VERSION, CONVENTIONAL_ROOT_TYPES } from "./constants.js";
+
+/** Current envelope version */
+export const ANALYSIS_FORMAT_VERSION = 1;
+
+const FORMAT = "orion-analysis";
+
+/**
+ * Options for serializing an analysis
+ */
+export interface SerializeAnalysisOptions {
+  /** Timestamp to record (default: now) */
+  createdAt?: Date;
+
+  /** JSON indentation (default: none) */
+  space?: number;
+}
+
+/**
+ * Options for loading a serialized analysis
+ */
+export interface DeserializeAnalysisOptions {
+  /** Reject the analysis unless it was made from a schema with this fingerprint */
+  fingerprint?: string;
+}
+
+/**
+ * Migrations from each older envelope version to the next
+ */
+const MIGRATIONS: Record<number, (input: Record<string, unknown>) => Record<string, unknown>> = {
+  0: migrateBareAnalysis,
+};
+
+/**
+ * Serialize an analysis to JSON in a versioned envelope
+ */
+export function serializeAnalysis(
+  analysis: AnalyzedSchema,
+  options: SerializeAnalysisOptions = {}
+): string {
+  const { typeMap, ...rest } = analysis;
+  const types = [...typeMap.values()];
+
+  const envelope: SerializedAnalysis = {
+    format: FORMAT,
+    version: ANALYSIS_FORMAT_VERSION,
+    analyzerVersion: ANALYZER_VERSION,
+    fingerprint: fingerprintTypes(types),
+    createdAt: (options.createdAt ?? new Date()).toISOString(),
+    analysis: { ...rest, types },
+  };
+
+  return JSON.stringify(envelope, null, options.space);
+}
+
+/**
+ * Load a serialized analysis (JSON text or parsed envelope).
+ *
+ * Older envelopes, including a bare `JSON.stringify(analysis)` from before
+ * envelopes existed, are migrated. Throws if the input is not a valid
+ * analysis, is from a newer format version, or its types do not match the
+ * recorded fingerprint.
+ */
+export function deserializeAnalysis(
+  input: string | object,
+  options: DeserializeAnalysisOptions = {}
+): AnalyzedSchema {
+  let parsed: unknown = input;
+  if (typeof input === "string") {
+    try {
+      parsed = JSON.parse(input);
+    } catch (error) {
+      throw new Error(
+        `Invalid serialized analysis: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  const envelope = migrate(parsed);
+  validateEnvelope(envelope);
+
+  const { types, ...rest } = envelope.analysis;
+  if (envelope.fingerprint && fingerprintTypes(types) !== envelope.fingerprint) {
+    throw new Error("Invalid serialized analysis: types do not match the recorded fingerprint");
+  }
+  if (options.fingerprint !== undefined && options.fingerprint !== envelope.fingerprint) {
+    throw new Error(
+      `Serialized analysis is for schema ${envelope.fingerprint || "(unknown)"}, expected ${options.fingerprint}`
+    );
+  }
+
+  return {
+    ...rest,
+    typeMap: new Map(types.map((type) => [type.name, type])),
+  };
+}
+
+/**
+ * Fingerprint a schema's types: SHA-256 of their canonical JSON, independent
+ * of type and key order
+ */
+export function fingerprintTypes(types: IntrospectionType[]): string {
+  const sorted = [...types].sort((a, b) => a.name.localeCompare(b.name));
+  return createHash("sha256").update(canonicalJson(sorted)).digest("hex");
+}
+
+// =============================================================================
+// MIGRATION AND VALIDATION
+// =============================================================================
+
+function migrate(input: unknown): SerializedAnalysis {
+  if (!isObject(input)) {
+    throw new Error("Invalid serialized analysis: expected an object");
+  }
+
+  let current = input;
+  let version = envelopeVersion(current);
+  if (version > ANALYSIS_FORMAT_VERSION) {
+    throw new Error(
+      `Serialized analysis format version ${version} is newer than supported version ${ANALYSIS_FORMAT_VERSION}`
+    );
+  }
+
+  while (version < ANALYSIS_FORMAT_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      throw new Error(`No migration from serialized analysis format version ${version}`);
+    }
+    current = step(current);
+    version = envelopeVersion(current);
+  }
+
+  return current as unknown as SerializedAnalysis;
+}
+
+/**
+ * Version 0 is a bare `JSON.stringify(analysis)`: no envelope, typeMap
+ * dropped, and none of the fields added since analyzer 2.0.0
+ */
+function migrateBareAnalysis(input: Record<string, unknown>): Record<string, unknown> {
+  validateBareAnalysis(input);
+
+  const entities = asArray(input.entities).map((e) => upgradeEntity(e as Partial<EntityType>));
+  const upgradeAll = (value: unknown) =>
+    asArray(value).map((o) => upgradeOperation(o as Partial<OperationType>));
+
+  const analysis: SerializedAnalysisData = {
+    entities,
+    queries: upgradeAll(input.queries),
+    mutations: upgradeAll(input.mutations),
+    subscriptions: upgradeAll(input.subscriptions),
+    abstractTypes: asArray(input.abstractTypes) as SerializedAnalysisData["abstractTypes"],
+    relationships: asArray(input.relationships) as SerializedAnalysisData["relationships"],
+    rootTypes: inferRootTypes(input),
+    types: [],
+  };
+
+  return {
+    format: FORMAT,
+    version: 1,
+    analyzerVersion: "unknown",
+    fingerprint: "",
+    createdAt: new Date(0).toISOString(),
+    analysis,
+  };
+}
+
+/**
+ * Bare analyses don't record root type names. Recover each from the
+ * entities: the conventionally named type, else the one declaring every
+ * operation of its kind.
+ */
+function inferRootTypes(input: Record<string, unknown>): RootTypeNames {
+  const candidates = asArray(input.entities).filter(isObject);
+  const fieldNames = (type: Record<string, unknown>) =>
+    asArray(type.fields).map((f) => (isObject(f) ? f.name : undefined));
+
+  const findRoot = (kind: keyof RootTypeNames, operations: unknown): string | null => {
+    const names = asArray(operations).map((op) => (isObject(op) ? op.name : undefined));
+    if (names.length === 0) return null;
+
+    const declaresAll = (type: Record<string, unknown>) => {
+      const fields = fieldNames(type);
+      return names.every((name) => fields.includes(name));
+    };
+    const root =
+      candidates.find((type) => type.name === CONVENTIONAL_ROOT_TYPES[kind] && declaresAll(type)) ??
+      candidates.find(declaresAll);
+    return typeof root?.name === "string" ? root.name : null;
+  };
+
+  return {
+    query: findRoot("query", input.queries),
+    mutation: findRoot("mutation", input.mutations),
+    subscription: findRoot("subscription", input.subscriptions),
+  };
+}
+
+function upgradeEntity(entity: Partial<EntityType>): EntityType {
+  const hasId = entity.hasId ?? false;
+  const characteristics = entity.characteristics ?? ({} as Partial<EntityType["characteristics"]>);
+  const score = (trait: ClassifiedTrait): TraitScore => ({
+    confidence: characteristics[trait] ? 1 : 0,
+    evidence: [],
+  });
+
+  return {
+    name: entity.name ?? "",
+    description: entity.description ?? null,
+    hasId,
+    keyFields: entity.keyFields ?? (hasId ? ["id"] : []),
+    keySource: entity.keySource ?? (hasId ? "id-field" : null),
+    subgraph: entity.subgraph ?? null,
+    ...(entity.federation ? { federation: entity.federation } : {}),
+    ...(entity.cacheControl ? { cacheControl: entity.cacheControl } : {}),
+    pagination: entity.pagination ?? null,
+    fields: entity.fields ?? [],
+    references: entity.references ?? [],
+    referencedBy: entity.referencedBy ?? [],
+    characteristics: {
+      isVolatile: characteristics.isVolatile ?? false,
+      isUserSpecific: characteristics.isUserSpecific ?? false,
+      isCollection: characteristics.isCollection ?? false,
+      hasSensitiveFields: characteristics.hasSensitiveFields ?? false,
+      isRootType: characteristics.isRootType ?? false,
+      hasSubscription: characteristics.hasSubscription ?? false,
+      scores: characteristics.scores ?? {
+        isVolatile: score("isVolatile"),
+        isUserSpecific: score("isUserSpecific"),
+        hasSensitiveFields: score("hasSensitiveFields"),
+        isCollection: score("isCollection"),
+      },
+    },
+  };
+}
+
+function upgradeOperation(operation: Partial<OperationType>): OperationType {
+  const affectedTypes = operation.affectedTypes ?? [];
+  const details: AffectedType[] =
+    operation.affectedTypeDetails ??
+    affectedTypes.map((type) => ({ type, confidence: 1, reason: "mutation-name", details: [] }));
+
+  return {
+    name: operation.name ?? "",
+    description: operation.description ?? null,
+    returnType: operation.returnType ?? "",
+    returnsList: operation.returnsList ?? false,
+    arguments: (operation.arguments ?? []).map((arg) => ({
+      ...classifyArgument(arg),
+      ...arg,
+    })),
+    affectedTypes,
+    affectedTypeDetails: details,
+    pagination: operation.pagination ?? null,
+    cacheKey: operation.cacheKey ?? null,
+    cost: operation.cost ?? null,
+  };
+}
+
+/**
+ * Check a bare analysis before migration fills in defaults: lists that are
+ * present must be arrays of named objects
+ */
+function validateBareAnalysis(input: Record<string, unknown>): void {
+  const problems: string[] = [];
+  const named = (item: unknown, key = "name") => isObject(item) && typeof item[key] === "string";
+  const isEntity = (item: unknown) =>
+    isObject(item) &&
+    typeof item.name === "string" &&
+    (item.characteristics === undefined || isObject(item.characteristics));
+
+  const lists: Array<[string, (item: unknown) => boolean, string]> = [
+    ["entities", isEntity, "an entity"],
+    ["queries", (o) => named(o), "an operation"],
+    ["mutations", (o) => named(o), "an operation"],
+    ["subscriptions", (o) => named(o), "an operation"],
+    ["abstractTypes", (a) => named(a), "an abstract type"],
+    ["relationships", (r) => named(r, "from") && named(r, "to"), "a relationship"],
+  ];
+  for (const [key, isValid, label] of lists) {
+    const value = input[key];
+    if (value === undefined) continue;
+    if (!Array.isArray(value)) {
+      problems.push(`${key} must be an array`);
+      continue;
+    }
+    value.forEach((item, i) => {
+      if (!isValid(item)) problems.push(`${key}[${i}] is not ${label}`);
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid serialized analysis: ${problems.join("; ")}`);
+  }
+}
+
+function validateEnvelope(envelope: SerializedAnalysis): void {
+  const problems: string[] = [];
+
+  if (envelope.format !== FORMAT) problems.push(`format must be "${FORMAT}"`);
+  if (typeof envelope.analyzerVersion !== "string") problems.push("analyzerVersion must be a string");
+  if (typeof envelope.fingerprint !== "string") problems.push("fingerprint must be a string");
+  if (typeof envelope.createdAt !== "string" || Number.isNaN(Date.parse(envelope.createdAt))) {
+    problems.push("createdAt must be an ISO timestamp");
+  }
+
+  const analysis = envelope.analysis as Partial<SerializedAnalysisData> | undefined;
+  if (!isObject(analysis)) {
+    problems.push("analysis must be an object");
+  } else {
+    const lists = [
+      "entities",
+      "queries",
+      "mutations",
+      "subscriptions",
+      "abstractTypes",
+      "relationships",
+      "types",
+    ] as const;
+    for (const key of lists) {
+      if (!Array.isArray(analysis[key])) problems.push(`analysis.${key} must be an array`);
+    }
+    const roots = analysis.rootTypes as Record<string, unknown> | undefined;
+    if (
+      !isObject(roots) ||
+      !Object.keys(CONVENTIONAL_ROOT_TYPES).every((kind) => roots[kind] === null || typeof roots[kind] === "string")
+    ) {
+      problems.push("analysis.rootTypes must name the root types");
+    }
+    analysis.entities?.forEach((entity, i) => {
+      if (!isObject(entity) || typeof entity.name !== "string" || !isObject(entity.characteristics)) {
+        problems.push(`analysis.entities[${i}] is not an entity`);
+      }
+    });
+    analysis.types?.forEach((type, i) => {
+      if (!isObject(type) || typeof type.name !== "string" || typeof type.kind !== "string") {
+        problems.push(`analysis.types[${i}] is not an introspection type`);
+      }
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid serialized analysis: ${problems.join("; ")}`);
+  }
+}
+
+function envelopeVersion(input: Record<string, unknown>): number {
+  if (input.format === undefined && Array.isArray(input.entities)) {
+    return 0;
+  }
+  if (typeof input.version !== "number" || !Number.isInteger(input.version)) {
+    throw new Error("Invalid serialized analysis: missing envelope version");
+  }
+  return input.version;
+}
+
+/**
+ * JSON with object keys sorted and undefined properties dropped, so equal
+ * values always serialize the same way
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (isObject(value)) {
+    const keys = Object.keys(value).filter((k) => value[k] !== undefined).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${canonicalJson(value[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
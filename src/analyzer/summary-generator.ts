@@ -2,88 +2,698 @@
  * Schema summary generation for AI prompts
  */
 
-import type { AnalyzedSchema } from "../types.js";
+import type {
+  AbstractType,
+  AnalyzedSchema,
+  CacheControlInfo,
+  ClassifiedTrait,
+  EntityType,
+  OperationCost,
+  OperationType,
+  PaginationInfo,
+  SchemaSummary,
+  SummaryOmissions,
+  TrafficProfile,
+  TypeImportance,
+  TypeRelationship,
+  TypeTraffic,
+} from "../types.js";
+
+const FIELD_TRAIT_LABELS: Record<ClassifiedTrait, string> = {
+  isVolatile: "volatile",
+  isUserSpecific: "user-specific",
+  hasSensitiveFields: "sensitive",
+  isCollection: "collection",
+};
+
+/** Characteristic labels for collapsed-type aggregates, most significant first */
+const AGGREGATE_LABELS = ["sensitive", "user-specific", "real-time", "volatile", "collection", "stable"];
+
+/** Names listed per aggregate or omission line in a budgeted summary */
+const MAX_LISTED_NAMES = 8;
+
+/** Busiest operations listed in the traffic section */
+const HOT_OPERATION_COUNT = 10;
+
+/** Weight of a type's share of traffic in its importance score */
+const TRAFFIC_WEIGHT = 4;
+
+/**
+ * Options for schema summaries
+ */
+export interface SummaryOptions {
+  /**
+   * Approximate token budget. Types are then ranked by importance, the
+   * lowest-ranked are collapsed into aggregates, redundant relationships are
+   * dropped, and an "Omitted" section lists what was left out.
+   */
+  tokenBudget?: number;
+
+  /** Characters per token when estimating size (default: 4) */
+  charsPerToken?: number;
+}
 
 /**
  * Generates a human-readable summary of the analyzed schema.
  * This is useful for AI prompts and debugging.
  */
-export function generateSchemaSummary(schema: AnalyzedSchema): string {
+export function generateSchemaSummary(
+  schema: AnalyzedSchema,
+  options: SummaryOptions = {}
+): string {
+  return summarizeSchema(schema, options).text;
+}
+
+/**
+ * Generates a schema summary along with its estimated size and, under a
+ * token budget, what was omitted
+ */
+export function summarizeSchema(
+  schema: AnalyzedSchema,
+  options: SummaryOptions = {}
+): SchemaSummary {
+  const charsPerToken = options.charsPerToken ?? 4;
+  if (options.tokenBudget !== undefined) {
+    return budgetedSummary(schema, options.tokenBudget, charsPerToken);
+  }
+
+  const text = renderSummary(schema, allBlocks(schema), []);
+  return {
+    text,
+    estimatedTokens: Math.ceil(text.length / charsPerToken),
+    omitted: { types: [], queries: [], mutations: [], subscriptions: [], relationships: 0 },
+  };
+}
+
+/**
+ * Rank non-root types by importance for caching: reachability from queries,
+ * mutation impact, how often they are referenced, their characteristics
+ * and, with traffic applied, their share of requests
+ */
+export function rankTypes(schema: AnalyzedSchema): TypeImportance[] {
+  const distance = queryDistances(schema);
+  const traffic = typeTraffic(schema.traffic);
+  const mutationCounts = new Map<string, number>();
+  for (const mutation of schema.mutations) {
+    for (const type of mutation.affectedTypes) {
+      mutationCounts.set(type, (mutationCounts.get(type) ?? 0) + 1);
+    }
+  }
+
+  return schema.entities
+    .filter((e) => !e.characteristics.isRootType)
+    .map((entity) => {
+      const chars = entity.characteristics;
+      const hops = distance.get(entity.name);
+      let score = hops === undefined ? 0 : 3 / (1 + hops);
+      score += 0.5 * Math.min(mutationCounts.get(entity.name) ?? 0, 4);
+      score += Math.log2(1 + entity.referencedBy.length);
+      if (chars.hasSensitiveFields) score += 1;
+      if (chars.hasSubscription) score += 1;
+      if (chars.isUserSpecific) score += 0.5;
+      if (chars.isVolatile) score += 0.5;
+      if (entity.cacheControl) score += 0.5;
+      if (entity.pagination) score -= 0.5;
+      score += TRAFFIC_WEIGHT * (traffic.get(entity.name)?.share ?? 0);
+      return { name: entity.name, score: Math.round(score * 1000) / 1000 };
+    })
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+}
+
+// =============================================================================
+// BLOCKS
+// =============================================================================
+
+/**
+ * Summary content split into independently droppable blocks
+ */
+interface SummaryBlocks {
+  entities: Map<string, string[]>;
+  abstractTypes: Map<string, string[]>;
+  queries: Map<string, string[]>;
+  mutations: Map<string, string[]>;
+  subscriptions: Map<string, string[]>;
+  relationships: string[][];
+}
+
+function allBlocks(schema: AnalyzedSchema): SummaryBlocks {
+  const types = typeTraffic(schema.traffic);
+  const queries = rootFieldTraffic(schema.traffic);
+  return {
+    entities: new Map(
+      schema.entities
+        .filter((e) => !e.characteristics.isRootType)
+        .map((e) => [e.name, renderEntity(e, types.get(e.name))])
+    ),
+    abstractTypes: new Map(schema.abstractTypes.map((a) => [a.name, renderAbstractType(a)])),
+    queries: new Map(schema.queries.map((q) => [q.name, renderQuery(q, queries.get(q.name))])),
+    mutations: new Map(schema.mutations.map((m) => [m.name, renderMutation(m)])),
+    subscriptions: new Map(schema.subscriptions.map((s) => [s.name, renderSubscription(s)])),
+    relationships: schema.relationships.map((rel) => [renderRelationship(rel)]),
+  };
+}
+
+function renderSummary(schema: AnalyzedSchema, blocks: SummaryBlocks, footer: string[]): string {
   const lines: string[] = [];
 
   lines.push("# GraphQL Schema Analysis\n");
 
+  // Observed traffic
+  if (schema.traffic && schema.traffic.totalRequests > 0) {
+    lines.push("## Traffic\n", ...renderTraffic(schema.traffic), "");
+  }
+
   // Entities
   lines.push("## Entity Types\n");
-  for (const entity of schema.entities) {
-    if (entity.characteristics.isRootType) continue;
+  for (const block of blocks.entities.values()) {
+    lines.push(...block, "");
+  }
 
-    lines.push(`### ${entity.name}`);
-    if (entity.description) {
-      lines.push(`Description: ${entity.description}`);
+  // Interfaces and unions
+  if (blocks.abstractTypes.size > 0) {
+    lines.push("## Abstract Types\n");
+    for (const block of blocks.abstractTypes.values()) {
+      lines.push(...block, "");
     }
+  }
+
+  // Queries
+  lines.push("## Query Operations\n");
+  for (const block of blocks.queries.values()) {
+    lines.push(...block);
+  }
+  lines.push("");
 
-    lines.push(`- Has ID: ${entity.hasId}`);
-    lines.push(`- Fields: ${entity.fields.map((f) => f.name).join(", ")}`);
+  // Mutations
+  if (blocks.mutations.size > 0) {
+    lines.push("## Mutation Operations\n");
+    for (const block of blocks.mutations.values()) {
+      lines.push(...block);
+    }
+    lines.push("");
+  }
 
-    if (entity.references.length > 0) {
-      lines.push(`- References: ${entity.references.join(", ")}`);
+  // Subscriptions
+  if (blocks.subscriptions.size > 0) {
+    lines.push("## Subscription Operations\n");
+    for (const block of blocks.subscriptions.values()) {
+      lines.push(...block);
     }
-    if (entity.referencedBy.length > 0) {
-      lines.push(`- Referenced by: ${entity.referencedBy.join(", ")}`);
+    lines.push("");
+  }
+
+  // Relationships
+  if (schema.relationships.length > 0 && blocks.relationships.length > 0) {
+    lines.push("## Type Relationships\n");
+    for (const block of blocks.relationships) {
+      lines.push(...block);
     }
+  }
 
-    const chars = entity.characteristics;
-    const traits: string[] = [];
-    if (chars.isVolatile) traits.push("volatile");
-    if (chars.isUserSpecific) traits.push("user-specific");
-    if (chars.hasSensitiveFields) traits.push("has-sensitive-data");
-    if (chars.isCollection) traits.push("collection");
+  if (footer.length > 0) {
+    if (lines[lines.length - 1] !== "") lines.push("");
+    lines.push(...footer);
+  }
+
+  return lines.join("\n");
+}
 
-    if (traits.length > 0) {
-      lines.push(`- Characteristics: ${traits.join(", ")}`);
+function renderEntity(entity: EntityType, traffic: TypeTraffic | undefined): string[] {
+  const lines: string[] = [];
+
+  lines.push(`### ${entity.name}`);
+  if (entity.description) {
+    lines.push(`Description: ${entity.description}`);
+  }
+
+  lines.push(`- Has ID: ${entity.hasId}`);
+  if (entity.hasId) {
+    lines.push(`- Key fields: ${entity.keyFields.join(", ")}`);
+  }
+  if (entity.federation) {
+    lines.push(`- Subgraph: ${entity.subgraph ?? "unknown"}`);
+    if (entity.federation.externalFields.length > 0) {
+      lines.push(`- External fields: ${entity.federation.externalFields.join(", ")}`);
     }
+  }
+  lines.push(`- Fields: ${entity.fields.map((f) => f.name).join(", ")}`);
 
-    lines.push("");
+  if (entity.pagination) {
+    lines.push(`- Pagination: ${formatPagination(entity.pagination)}`);
   }
 
-  // Queries
-  lines.push("## Query Operations\n");
+  if (entity.cacheControl) {
+    lines.push(`- Cache hint (@cacheControl): ${formatCacheHint(entity.cacheControl)}`);
+  }
+
+  if (entity.references.length > 0) {
+    lines.push(`- References: ${entity.references.join(", ")}`);
+  }
+  if (entity.referencedBy.length > 0) {
+    lines.push(`- Referenced by: ${entity.referencedBy.join(", ")}`);
+  }
+
+  const chars = entity.characteristics;
+  const traits: string[] = [];
+  if (chars.isVolatile) traits.push("volatile");
+  if (chars.isUserSpecific) traits.push("user-specific");
+  if (chars.hasSensitiveFields) traits.push("has-sensitive-data");
+  if (chars.isCollection) traits.push("collection");
+  if (chars.hasSubscription) traits.push("real-time (subscription)");
+
+  if (traits.length > 0) {
+    lines.push(`- Characteristics: ${traits.join(", ")}`);
+  }
+
+  const fieldTraits = entity.fields
+    .filter((f) => f.traits && f.traits.length > 0)
+    .map((f) => `${f.name} (${f.traits!.map((t) => FIELD_TRAIT_LABELS[t]).join(", ")})`);
+  if (fieldTraits.length > 0) {
+    lines.push(`- Field traits: ${fieldTraits.join(", ")}`);
+  }
+
+  if (traffic) {
+    lines.push(`- Traffic: ${formatShare(traffic.share)} of requests`);
+  }
+
+  return lines;
+}
+
+function renderAbstractType(abstractType: AbstractType): string[] {
+  const lines: string[] = [];
+  lines.push(`### ${abstractType.name} (${abstractType.kind === "UNION" ? "union" : "interface"})`);
+  if (abstractType.description) {
+    lines.push(`Description: ${abstractType.description}`);
+  }
+  lines.push(`- Possible types: ${abstractType.possibleTypes.join(", ") || "none"}`);
+  if (abstractType.referencedBy.length > 0) {
+    lines.push(`- Referenced by: ${abstractType.referencedBy.join(", ")}`);
+  }
+  return lines;
+}
+
+function renderQuery(query: OperationType, traffic: RootFieldTraffic | undefined): string[] {
+  const lines: string[] = [];
+  const args = query.arguments.map((a) => `${a.name}: ${a.typeName}`).join(", ");
+  const returnStr = query.returnsList
+    ? `[${query.returnType}]`
+    : query.returnType;
+  const paginated = query.pagination ? ` [${formatPagination(query.pagination)}]` : "";
+  lines.push(`- ${query.name}(${args}): ${returnStr}${paginated}`);
+  if (query.cacheKey && query.arguments.length > 0) {
+    lines.push(`  Cache key: ${formatCacheKey(query)}`);
+  }
+  if (query.cost) {
+    lines.push(`  Cost: ${formatCost(query.cost)}`);
+  }
+  if (traffic) {
+    lines.push(
+      `  Traffic: ${formatShare(traffic.share)} of requests, ${formatVariableSets(traffic.distinctVariables)}`
+    );
+  }
+  return lines;
+}
+
+function renderMutation(mutation: OperationType): string[] {
+  const lines: string[] = [];
+  const args = mutation.arguments
+    .map((a) => `${a.name}: ${a.typeName}`)
+    .join(", ");
+  const returnStr = mutation.returnsList
+    ? `[${mutation.returnType}]`
+    : mutation.returnType;
+  lines.push(`- ${mutation.name}(${args}): ${returnStr}`);
+  const affected = mutation.affectedTypeDetails.filter((a) =>
+    mutation.affectedTypes.includes(a.type)
+  );
+  if (affected.length > 0) {
+    const list = affected.map((a) => `${a.type} (${a.confidence}, ${a.reason})`);
+    lines.push(`  Affects: ${list.join(", ")}`);
+  }
+  return lines;
+}
+
+function renderSubscription(subscription: OperationType): string[] {
+  const lines: string[] = [];
+  const args = subscription.arguments
+    .map((a) => `${a.name}: ${a.typeName}`)
+    .join(", ");
+  const returnStr = subscription.returnsList
+    ? `[${subscription.returnType}]`
+    : subscription.returnType;
+  lines.push(`- ${subscription.name}(${args}): ${returnStr}`);
+  if (subscription.affectedTypes.length > 0) {
+    lines.push(`  Streams: ${subscription.affectedTypes.join(", ")}`);
+  }
+  return lines;
+}
+
+/**
+ * Totals, cacheable share and the busiest operations
+ */
+function renderTraffic(traffic: TrafficProfile): string[] {
+  const lines: string[] = [];
+  const minutes = traffic.windowSeconds ? traffic.windowSeconds / 60 : null;
+  const window = minutes ? ` over ${Math.round(minutes)} min (${round1(traffic.totalRequests / minutes)}/min)` : "";
+  lines.push(`- ${traffic.totalRequests} requests${window}`);
+  lines.push(
+    `- Cacheable share: ${formatShare(traffic.cacheableShare)} of requests; ` +
+      `repeat requests: ${formatShare(traffic.reuseShare)} (hit ratio upper bound)`
+  );
+
+  lines.push("- Hot operations:");
+  for (const op of traffic.operations.slice(0, HOT_OPERATION_COUNT)) {
+    const target = op.operation ? ` (${op.operation} ${op.rootFields.join(", ")})` : " (unmatched)";
+    const rate = op.requestsPerMinute !== null ? `, ${round1(op.requestsPerMinute)}/min` : "";
+    const cacheable = op.operation === "query" && !op.cacheable ? ", not cacheable" : "";
+    lines.push(
+      `  - ${op.name}${target}: ${formatShare(op.share)}${rate}, ` +
+        `${formatVariableSets(op.distinctVariables)}, p95 ${op.p95LatencyMs}ms${cacheable}`
+    );
+  }
+  return lines;
+}
+
+function renderRelationship(rel: TypeRelationship): string {
+  const arrow = rel.isList ? "->>" : "->";
+  const through = rel.via ? ` as ${rel.via}` : "";
+  return `- ${rel.from} ${arrow} ${rel.to} (via ${rel.fieldName}${through})`;
+}
+
+// =============================================================================
+// TOKEN BUDGET
+// =============================================================================
+
+interface Candidate {
+  score: number;
+  tokens: number;
+  add: () => void;
+}
+
+/**
+ * Fill the budget with the highest-scoring blocks, then collapse the rest
+ * into aggregates and report what was omitted
+ */
+function budgetedSummary(
+  schema: AnalyzedSchema,
+  budget: number,
+  charsPerToken: number
+): SchemaSummary {
+  const full = allBlocks(schema);
+  const tokens = (lines: string[]) => Math.ceil((lines.join("\n").length + 1) / charsPerToken);
+
+  const ranking = rankTypes(schema);
+  const maxScore = ranking.reduce((max, r) => Math.max(max, r.score), 1);
+  const importance = new Map(ranking.map((r) => [r.name, r.score / maxScore]));
+  const weight = (type: string) => importance.get(type) ?? 0;
+
+  const selected: SummaryBlocks = {
+    entities: new Map(),
+    abstractTypes: new Map(),
+    queries: new Map(),
+    mutations: new Map(),
+    subscriptions: new Map(),
+    relationships: [],
+  };
+  const candidates: Candidate[] = [];
+
+  for (const [name, block] of full.entities) {
+    candidates.push({ score: weight(name), tokens: tokens(block), add: () => selected.entities.set(name, block) });
+  }
+  for (const abstractType of schema.abstractTypes) {
+    const block = full.abstractTypes.get(abstractType.name)!;
+    const score = abstractType.possibleTypes.reduce((max, type) => Math.max(max, weight(type)), 0);
+    candidates.push({ score, tokens: tokens(block), add: () => selected.abstractTypes.set(abstractType.name, block) });
+  }
+  // Operations are short and tell the AI how types are fetched and changed
+  const operationScore = (types: string[]) =>
+    0.5 + 0.5 * types.reduce((max, type) => Math.max(max, weight(type)), 0);
+  const queryTraffic = rootFieldTraffic(schema.traffic);
   for (const query of schema.queries) {
-    const args = query.arguments.map((a) => `${a.name}: ${a.typeName}`).join(", ");
-    const returnStr = query.returnsList
-      ? `[${query.returnType}]`
-      : query.returnType;
-    lines.push(`- ${query.name}(${args}): ${returnStr}`);
+    const block = full.queries.get(query.name)!;
+    candidates.push({
+      score:
+        operationScore([query.returnType, query.pagination?.nodeType ?? query.returnType]) +
+        (queryTraffic.get(query.name)?.share ?? 0),
+      tokens: tokens(block),
+      add: () => selected.queries.set(query.name, block),
+    });
+  }
+  for (const [operations, blocks, target] of [
+    [schema.mutations, full.mutations, selected.mutations],
+    [schema.subscriptions, full.subscriptions, selected.subscriptions],
+  ] as const) {
+    for (const operation of operations) {
+      const block = blocks.get(operation.name)!;
+      candidates.push({
+        score: operationScore(operation.affectedTypes),
+        tokens: tokens(block),
+        add: () => target.set(operation.name, block),
+      });
+    }
   }
-  lines.push("");
 
-  // Mutations
-  if (schema.mutations.length > 0) {
-    lines.push("## Mutation Operations\n");
-    for (const mutation of schema.mutations) {
-      const args = mutation.arguments
-        .map((a) => `${a.name}: ${a.typeName}`)
-        .join(", ");
-      const returnStr = mutation.returnsList
-        ? `[${mutation.returnType}]`
-        : mutation.returnType;
-      lines.push(`- ${mutation.name}(${args}): ${returnStr}`);
-      if (mutation.affectedTypes.length > 0) {
-        lines.push(`  Affects: ${mutation.affectedTypes.join(", ")}`);
+  // Reserve room for the aggregates and omission report
+  const reserve = Math.max(60, Math.floor(budget * 0.1));
+  let used = tokens(renderSummary(schema, selected, []).split("\n"));
+  const fill = (list: Candidate[]) => {
+    for (const candidate of list.sort((a, b) => b.score - a.score)) {
+      if (used + candidate.tokens > budget - reserve) continue;
+      candidate.add();
+      used += candidate.tokens;
+    }
+  };
+  fill(candidates);
+
+  // Relationships only between types shown in full, one line per field
+  const shown = (type: string) => selected.entities.has(type) || selected.abstractTypes.has(type);
+  const allRelationships = dedupeRelationships(schema.relationships);
+  const relationships = allRelationships.filter((rel) => shown(rel.from) && shown(rel.target));
+  fill(
+    relationships.map((rel) => {
+      const line = [rel.line];
+      return {
+        score: Math.min(weight(rel.from), importance.get(rel.target) ?? 1),
+        tokens: tokens(line),
+        add: () => selected.relationships.push(line),
+      };
+    })
+  );
+
+  const omitted: SummaryOmissions = {
+    types: ranking.map((r) => r.name).filter((name) => !selected.entities.has(name)),
+    queries: schema.queries.map((q) => q.name).filter((name) => !selected.queries.has(name)),
+    mutations: schema.mutations.map((m) => m.name).filter((name) => !selected.mutations.has(name)),
+    subscriptions: schema.subscriptions
+      .map((s) => s.name)
+      .filter((name) => !selected.subscriptions.has(name)),
+    relationships: allRelationships.length - selected.relationships.length,
+  };
+
+  const text = renderSummary(schema, selected, renderOmissions(schema, omitted, budget));
+  return { text, estimatedTokens: Math.ceil(text.length / charsPerToken), omitted };
+}
+
+/**
+ * One relationship per field: fan-out through an interface or union is
+ * shown once, pointing at the abstract type
+ */
+function dedupeRelationships(
+  relationships: TypeRelationship[]
+): Array<{ from: string; target: string; line: string }> {
+  const seen = new Set<string>();
+  const result: Array<{ from: string; target: string; line: string }> = [];
+
+  for (const rel of relationships) {
+    if (rel.direction !== "outgoing") continue;
+    const key = `${rel.from}.${rel.fieldName}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const arrow = rel.isList ? "->>" : "->";
+    const line = rel.via
+      ? `- ${rel.from} ${arrow} ${rel.via} (via ${rel.fieldName})`
+      : renderRelationship(rel);
+    result.push({ from: rel.from, target: rel.via ?? rel.to, line });
+  }
+
+  return result;
+}
+
+function renderOmissions(schema: AnalyzedSchema, omitted: SummaryOmissions, budget: number): string[] {
+  const entities = new Map(schema.entities.map((e) => [e.name, e]));
+  const lines: string[] = [];
+
+  if (omitted.types.length > 0) {
+    lines.push("## Collapsed Types\n");
+    lines.push("Lower-priority types, listed by characteristic without details:\n");
+
+    const groups = new Map<string, string[]>();
+    for (const name of omitted.types) {
+      const label = aggregateLabel(entities.get(name));
+      groups.set(label, [...(groups.get(label) ?? []), name]);
+    }
+    for (const label of AGGREGATE_LABELS) {
+      const names = groups.get(label);
+      if (names) {
+        lines.push(`- ${label}: ${names.length} types (${listNames(names)})`);
       }
     }
     lines.push("");
   }
 
-  // Relationships
-  if (schema.relationships.length > 0) {
-    lines.push("## Type Relationships\n");
-    for (const rel of schema.relationships) {
-      const arrow = rel.isList ? "->>" : "->";
-      lines.push(`- ${rel.from} ${arrow} ${rel.to} (via ${rel.fieldName})`);
+  const counts: Array<[string, string[] | number]> = [
+    ["Types collapsed", omitted.types],
+    ["Queries omitted", omitted.queries],
+    ["Mutations omitted", omitted.mutations],
+    ["Subscriptions omitted", omitted.subscriptions],
+    ["Relationships omitted", omitted.relationships],
+  ];
+  const reported = counts.filter(([, value]) => (typeof value === "number" ? value > 0 : value.length > 0));
+  if (reported.length > 0) {
+    lines.push("## Omitted for Length\n");
+    lines.push(`This summary was shortened to about ${budget} tokens.`);
+    for (const [label, value] of reported) {
+      lines.push(
+        typeof value === "number" ? `- ${label}: ${value}` : `- ${label}: ${value.length} (${listNames(value)})`
+      );
     }
+    lines.push("Apply general rules to omitted items, or ask for details if a rule depends on them.");
   }
 
-  return lines.join("\n");
+  return lines;
+}
+
+/**
+ * Requests per root query field, summed over the client operations selecting it
+ */
+interface RootFieldTraffic {
+  share: number;
+  distinctVariables: number;
+}
+
+function rootFieldTraffic(traffic: TrafficProfile | undefined): Map<string, RootFieldTraffic> {
+  const totals = new Map<string, RootFieldTraffic>();
+  for (const op of traffic?.operations ?? []) {
+    if (op.operation !== "query") continue;
+    for (const field of op.rootFields) {
+      const total = totals.get(field) ?? { share: 0, distinctVariables: 0 };
+      total.share = Math.round((total.share + op.share) * 1000) / 1000;
+      total.distinctVariables += op.distinctVariables;
+      totals.set(field, total);
+    }
+  }
+  return totals;
+}
+
+function typeTraffic(traffic: TrafficProfile | undefined): Map<string, TypeTraffic> {
+  return new Map((traffic?.types ?? []).map((t) => [t.type, t]));
+}
+
+function formatShare(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+function formatVariableSets(count: number): string {
+  return `${count} distinct variable set${count === 1 ? "" : "s"}`;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function aggregateLabel(entity: EntityType | undefined): string {
+  const chars = entity?.characteristics;
+  if (!chars) return "stable";
+  if (chars.hasSensitiveFields) return "sensitive";
+  if (chars.isUserSpecific) return "user-specific";
+  if (chars.hasSubscription) return "real-time";
+  if (chars.isVolatile) return "volatile";
+  if (chars.isCollection) return "collection";
+  return "stable";
+}
+
+function listNames(names: string[]): string {
+  const shown = names.slice(0, MAX_LISTED_NAMES).join(", ");
+  return names.length > MAX_LISTED_NAMES ? `${shown}, +${names.length - MAX_LISTED_NAMES} more` : shown;
+}
+
+/**
+ * Hops from a type returned by a query, following relationships and
+ * abstract type members
+ */
+function queryDistances(schema: AnalyzedSchema): Map<string, number> {
+  const edges = new Map<string, string[]>();
+  const link = (from: string, to: string) => edges.set(from, [...(edges.get(from) ?? []), to]);
+  for (const rel of schema.relationships) {
+    if (rel.direction === "outgoing") link(rel.from, rel.to);
+  }
+  for (const abstractType of schema.abstractTypes) {
+    for (const member of abstractType.possibleTypes) link(abstractType.name, member);
+  }
+
+  const distance = new Map<string, number>();
+  let frontier: string[] = [];
+  for (const query of schema.queries) {
+    for (const type of [query.returnType, query.pagination?.nodeType]) {
+      if (type && !distance.has(type)) {
+        distance.set(type, 0);
+        frontier.push(type);
+      }
+    }
+  }
+
+  for (let hops = 1; frontier.length > 0; hops++) {
+    const next: string[] = [];
+    for (const type of frontier) {
+      for (const target of edges.get(type) ?? []) {
+        if (distance.has(target)) continue;
+        distance.set(target, hops);
+        next.push(target);
+      }
+    }
+    frontier = next;
+  }
+
+  return distance;
+}
+
+/**
+ * Format a query's cache key, e.g. "id, locale (localization), after (pagination); per user"
+ */
+function formatCacheKey(query: OperationType): string {
+  const key = query.cacheKey!;
+  const roles = new Map(query.arguments.map((a) => [a.name, a.role]));
+  const parts = [key.arguments.map((name) => `${name} (${roles.get(name)})`).join(", ")];
+  if (key.perUser) parts.push("per user");
+  if (key.highCardinality.length > 0) {
+    parts.push(`high cardinality: ${key.highCardinality.join(", ")}`);
+  }
+  if (!key.cacheable) parts.push("not cacheable");
+  return parts.join("; ");
+}
+
+/**
+ * Format an operation cost estimate, e.g. "231 (depth 4, breadth 6, 1110 nodes)"
+ */
+export function formatCost(cost: OperationCost): string {
+  return `${cost.cost} (depth ${cost.depth}, breadth ${cost.breadth}, ${cost.nodeCount} nodes)`;
+}
+
+/**
+ * Format an effective @cacheControl policy, e.g. "maxAge=60, scope=private"
+ */
+export function formatCacheHint(hint: CacheControlInfo): string {
+  const parts: string[] = [];
+  if (hint.maxAge !== null) parts.push(`maxAge=${hint.maxAge}`);
+  if (hint.scope !== null) parts.push(`scope=${hint.scope}`);
+  return parts.join(", ") || "inherited, no maxAge";
+}
+
+/**
+ * Format pagination info, e.g. "relay list of Post (first, after)"
+ */
+function formatPagination(pagination: PaginationInfo): string {
+  const args = pagination.arguments.length > 0 ? ` (${pagination.arguments.join(", ")})` : "";
+  return `${pagination.style} list of ${pagination.nodeType}${args}`;
 }
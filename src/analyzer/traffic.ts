@@ -0,0 +1,286 @@
+/**
+ * Operation traffic
+ *
+ * Parses NDJSON operation logs and folds per-operation request rates and
+ * variable cardinality into an analysis, so summaries, prompts and
+ * heuristic configs can favor the hot paths.
+ */
+
+import type {
+  AnalyzedSchema,
+  ExecutableOperationKind,
+  OperationAnalysis,
+  OperationLogEntry,
+  OperationTraffic,
+  OperationType,
+  TrafficProfile,
+  TypeTraffic,
+} from "../types.js";
+import type { ExecutableDocumentNode } from "../operations/ast.js";
+
+import { analyzeOperationDocuments } from "../operations/analyzer.js";
+
+/**
+ * Options for building a traffic profile
+ */
+export interface TrafficOptions {
+  /**
+   * Client operation documents. Logged operations are matched to them by
+   * name to find the fields they select; otherwise names are matched to
+   * root fields (e.g. "GetProduct" to `product`).
+   */
+  documents?: Array<string | ExecutableDocumentNode>;
+}
+
+/**
+ * Log entries parsed from NDJSON, and the lines that couldn't be read
+ */
+export interface ParsedOperationLog {
+  entries: OperationLogEntry[];
+  errors: string[];
+}
+
+/** Accepted spellings of each log field */
+const LOG_FIELDS = {
+  operationName: ["operationName", "operation_name", "operation"],
+  queryHash: ["queryHash", "query_hash"],
+  variablesHash: ["variablesHash", "variables_hash"],
+  latencyMs: ["latencyMs", "latency_ms", "latency", "duration"],
+  responseSize: ["responseSize", "response_size", "bytes", "size"],
+  status: ["status", "statusCode", "status_code"],
+  timestamp: ["timestamp", "time", "ts"],
+} as const;
+
+/** Client naming affixes ignored when matching logged names to root fields */
+const NAME_PREFIX = /^(get|fetch|load|query|use)(?=.)/;
+const NAME_SUFFIX = /(?<=.)(query|mutation|subscription)$/;
+
+/**
+ * Parse an NDJSON operation log, one request per line. Blank lines are
+ * skipped; malformed lines are reported in `errors` by line number.
+ */
+export function parseOperationLog(ndjson: string): ParsedOperationLog {
+  const entries: OperationLogEntry[] = [];
+  const errors: string[] = [];
+
+  ndjson.split("\n").forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      errors.push(`line ${index + 1}: invalid JSON`);
+      return;
+    }
+    if (typeof record !== "object" || record === null || Array.isArray(record)) {
+      errors.push(`line ${index + 1}: expected an object`);
+      return;
+    }
+
+    const read = (field: keyof typeof LOG_FIELDS) =>
+      LOG_FIELDS[field].map((key) => (record as Record<string, unknown>)[key]).find((v) => v != null);
+
+    const operationName = read("operationName");
+    const queryHash = read("queryHash");
+    if (typeof operationName !== "string" && typeof queryHash !== "string") {
+      errors.push(`line ${index + 1}: missing operationName and queryHash`);
+      return;
+    }
+
+    const variablesHash = read("variablesHash");
+    entries.push({
+      operationName: typeof operationName === "string" && operationName ? operationName : null,
+      queryHash: typeof queryHash === "string" ? queryHash : "",
+      variablesHash: typeof variablesHash === "string" ? variablesHash : null,
+      latencyMs: toNumber(read("latencyMs")) ?? 0,
+      responseSize: toNumber(read("responseSize")) ?? 0,
+      status: toNumber(read("status")) ?? 200,
+      timestamp: toTimestamp(read("timestamp")),
+    });
+  });
+
+  return { entries, errors };
+}
+
+/**
+ * Aggregate log entries per client operation and type, and estimate how
+ * much of the traffic is cacheable.
+ *
+ * An operation counts as cacheable when it is a query and none of its root
+ * fields has a cache key marked not cacheable (see `OperationType.cacheKey`).
+ */
+export function buildTrafficProfile(
+  entries: OperationLogEntry[],
+  schema: AnalyzedSchema,
+  options: TrafficOptions = {}
+): TrafficProfile {
+  const groups = new Map<string, OperationLogEntry[]>();
+  for (const entry of entries) {
+    const name = entry.operationName ?? `#${entry.queryHash}`;
+    const group = groups.get(name) ?? [];
+    group.push(entry);
+    groups.set(name, group);
+  }
+
+  // A loop rather than Math.min(...), which overflows the stack on large logs
+  let first = Infinity;
+  let last = -Infinity;
+  let timestamped = 0;
+  for (const { timestamp } of entries) {
+    if (timestamp === null) continue;
+    first = Math.min(first, timestamp);
+    last = Math.max(last, timestamp);
+    timestamped++;
+  }
+  const windowSeconds = timestamped > 1 ? (last - first) / 1000 : null;
+
+  const documentOperations = new Map(
+    analyzeOperationDocuments(options.documents ?? [], schema)
+      .filter((analysis) => analysis.name !== null)
+      .map((analysis) => [analysis.name!, analysis])
+  );
+
+  const total = entries.length;
+  const unmatched: string[] = [];
+  const operations: OperationTraffic[] = [];
+  const queries = new Map(schema.queries.map((q) => [q.name, q]));
+
+  for (const [name, group] of groups) {
+    const analysis = documentOperations.get(name);
+    const target = analysis ? documentTarget(analysis) : matchRootField(name, schema);
+    if (!target) unmatched.push(name);
+
+    const latencies = group.map((e) => e.latencyMs).sort((a, b) => a - b);
+    const requests = group.length;
+
+    operations.push({
+      name,
+      operation: target?.operation ?? null,
+      requests,
+      share: round(requests / total),
+      requestsPerMinute: windowSeconds ? round(requests / (windowSeconds / 60)) : null,
+      distinctVariables: new Set(group.map((e) => e.variablesHash ?? "")).size,
+      distinctKeys: new Set(group.map((e) => `${e.queryHash}:${e.variablesHash ?? ""}`)).size,
+      errorRate: round(group.filter((e) => e.status >= 400).length / requests),
+      avgLatencyMs: round(latencies.reduce((sum, l) => sum + l, 0) / requests),
+      p95LatencyMs: latencies[Math.min(latencies.length - 1, Math.ceil(latencies.length * 0.95) - 1)]!,
+      avgResponseSize: round(group.reduce((sum, e) => sum + e.responseSize, 0) / requests),
+      rootFields: target?.rootFields ?? [],
+      types: target?.types ?? [],
+      selectors: target?.selectors ?? [],
+      cacheable:
+        target?.operation === "query" &&
+        target.rootFields.every((field) => queries.get(field)?.cacheKey?.cacheable !== false),
+    });
+  }
+
+  operations.sort((a, b) => b.requests - a.requests || a.name.localeCompare(b.name));
+
+  const typeRequests = new Map<string, number>();
+  for (const operation of operations) {
+    for (const type of operation.types) {
+      typeRequests.set(type, (typeRequests.get(type) ?? 0) + operation.requests);
+    }
+  }
+  const types: TypeTraffic[] = [...typeRequests]
+    .map(([type, requests]) => ({ type, requests, share: round(requests / total) }))
+    .sort((a, b) => b.requests - a.requests || a.type.localeCompare(b.type));
+
+  const cacheable = operations.filter((o) => o.cacheable);
+  return {
+    totalRequests: total,
+    windowSeconds,
+    operations,
+    types,
+    cacheableShare: total ? round(cacheable.reduce((sum, o) => sum + o.requests, 0) / total) : 0,
+    reuseShare: total
+      ? round(cacheable.reduce((sum, o) => sum + o.requests - o.distinctKeys, 0) / total)
+      : 0,
+    unmatched,
+  };
+}
+
+/**
+ * Attach a traffic profile to an analysis
+ */
+export function applyTraffic(schema: AnalyzedSchema, traffic: TrafficProfile): AnalyzedSchema {
+  return { ...schema, traffic };
+}
+
+/**
+ * What a logged operation resolves to in the schema
+ */
+interface OperationTarget {
+  operation: ExecutableOperationKind;
+  rootFields: string[];
+  types: string[];
+  selectors: string[];
+}
+
+/**
+ * Target of an operation found in the client documents. Its coordinates on
+ * root types (which `types` excludes) are its root fields.
+ */
+function documentTarget(analysis: OperationAnalysis): OperationTarget {
+  const isRoot = (coordinate: string) => !analysis.types.includes(coordinate.slice(0, coordinate.indexOf(".")));
+  return {
+    operation: analysis.operation,
+    rootFields: analysis.fields.filter(isRoot).map((f) => f.slice(f.indexOf(".") + 1)),
+    types: analysis.types,
+    selectors: analysis.fields.filter((f) => !isRoot(f)),
+  };
+}
+
+/**
+ * Match a logged operation name to a root field, ignoring case, separators
+ * and common client affixes ("GetProduct", "ProductQuery" -> product)
+ */
+function matchRootField(name: string, schema: AnalyzedSchema): OperationTarget | null {
+  const kinds: Array<[ExecutableOperationKind, OperationType[]]> = [
+    ["query", schema.queries],
+    ["mutation", schema.mutations],
+    ["subscription", schema.subscriptions],
+  ];
+
+  const normalized = normalize(name);
+  const stripped = normalized.replace(NAME_PREFIX, "").replace(NAME_SUFFIX, "");
+  for (const candidate of [normalized, stripped]) {
+    for (const [operation, fields] of kinds) {
+      const field = fields.find((f) => normalize(f.name) === candidate);
+      if (!field) continue;
+
+      const known = new Set([
+        ...schema.entities.map((e) => e.name),
+        ...schema.abstractTypes.map((a) => a.name),
+      ]);
+      const types = [...new Set([field.returnType, field.pagination?.nodeType ?? field.returnType])].filter(
+        (t) => known.has(t)
+      );
+      return { operation, rootFields: [field.name], types, selectors: types };
+    }
+  }
+  return null;
+}
+
+function normalize(name: string): string {
+  return name.replace(/[_\-]/g, "").toLowerCase();
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : null;
+}
+
+function toTimestamp(value: unknown): number | null {
+  if (typeof value === "string") {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? toNumber(value) : parsed;
+  }
+  return toNumber(value);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
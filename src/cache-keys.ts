@@ -0,0 +1,19 @@
+/**
+ * Cache Keys
+ *
+ * Predicts the edge runtime's behaviour for a cache config: the normalized
+ * cache key of a request and the surrogate keys of its response.
+ *
+ * @module cache-keys
+ */
+
+export {
+  // Request cache keys
+  computeCacheKey,
+  DEFAULT_IDENTITY_HEADERS,
+  type CacheKeyOptions,
+
+  // Surrogate keys
+  extractSurrogateKeys,
+  surrogateKeyMatches,
+} from "./cache-keys/index.js";
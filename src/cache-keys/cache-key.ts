@@ -0,0 +1,130 @@
+/**
+ * Request cache keys
+ *
+ * Builds the key the edge stores a response under: the canonical operation,
+ * its declared variables in sorted order, the identity for private
+ * responses and any vary headers.
+ */
+
+import { createHash } from "crypto";
+
+import type {
+  AnalyzedSchema,
+  CacheKey,
+  CacheKeyRequest,
+  CacheScope,
+  OrionCacheConfig,
+} from "../types.js";
+
+import { canonicalJson } from "../analyzer/serialization.js";
+import { analyzeOperationDocuments } from "../operations/analyzer.js";
+import { parseOperationDocument } from "../operations/parser.js";
+import { printCanonicalOperation, selectOperation } from "../operations/printer.js";
+
+/** Headers identifying the user of a private response, in order of preference */
+export const DEFAULT_IDENTITY_HEADERS = ["authorization", "cookie"];
+
+const KEY_PREFIX = "orion:";
+
+/**
+ * Options for building cache keys
+ */
+export interface CacheKeyOptions {
+  /** Headers whose values are part of every key (default: none) */
+  varyHeaders?: string[];
+
+  /** Headers identifying the user of a private response (default: authorization, cookie) */
+  identityHeaders?: string[];
+}
+
+/**
+ * Compute the cache key for a request, and whether the edge would store
+ * the response at all.
+ *
+ * Variables the operation doesn't declare are dropped. Private responses
+ * are keyed by a hash of the first identity header present, and aren't
+ * stored for requests without one.
+ *
+ * @param request - Query, operation name, variables and headers
+ * @param config - Cache config deciding the scope and policy
+ * @param schema - Analyzed schema to resolve the operation against
+ * @param options - Vary and identity headers
+ */
+export function computeCacheKey(
+  request: CacheKeyRequest,
+  config: OrionCacheConfig,
+  schema: AnalyzedSchema,
+  options: CacheKeyOptions = {}
+): CacheKey {
+  const document = parseOperationDocument(request.query, "request");
+  const operation = selectOperation(document, request.operationName);
+  const query = printCanonicalOperation(document, operation.name);
+
+  const declared = new Set(operation.variableDefinitions.map((v) => v.name));
+  const provided = request.variables ?? {};
+  const variables = canonicalJson(
+    Object.fromEntries(Object.entries(provided).filter(([name]) => declared.has(name)))
+  );
+
+  const analysis = analyzeOperationDocuments([document], schema, { config, variables: provided }).find(
+    (a) => a.name === operation.name
+  );
+  const policy = analysis?.policy ?? null;
+  const scope: CacheScope = policy?.scope ?? "public";
+
+  const headers = normalizeHeaders(request.headers ?? {});
+  const vary: Record<string, string> = {};
+  for (const name of (options.varyHeaders ?? []).map((h) => h.toLowerCase()).sort()) {
+    vary[name] = headers.get(name) ?? "";
+  }
+
+  let identity: string | null = null;
+  if (scope === "private") {
+    const header = (options.identityHeaders ?? DEFAULT_IDENTITY_HEADERS)
+      .map((h) => headers.get(h.toLowerCase()))
+      .find((value) => value !== undefined && value !== "");
+    identity = header !== undefined ? sha256(header) : null;
+  }
+
+  let reason: string | null = null;
+  if (!policy) {
+    reason = `${operation.operation} responses are not cached`;
+  } else if (policy.passthrough) {
+    reason = "a selected field is passthrough";
+  } else if (policy.maxAge <= 0) {
+    reason = "maxAge is 0";
+  } else if (scope === "private" && identity === null) {
+    reason = "private response without an identity header";
+  }
+
+  const key = KEY_PREFIX + sha256(canonicalJson({ query, variables, scope, identity, vary }));
+
+  return {
+    key,
+    operationName: operation.name,
+    query,
+    variables,
+    scope,
+    identity,
+    vary,
+    policy,
+    cacheable: reason === null,
+    reason,
+  };
+}
+
+/**
+ * Lowercase header names and join repeated values with ", "
+ */
+function normalizeHeaders(headers: NonNullable<CacheKeyRequest["headers"]>): Map<string, string> {
+  const normalized = new Map<string, string>();
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    normalized.set(name.toLowerCase(), Array.isArray(value) ? value.join(", ") : value);
+  }
+  return normalized;
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
@@ -0,0 +1,14 @@
+/**
+ * Cache Keys
+ *
+ * Computes the cache keys and surrogate keys the edge runtime uses for a
+ * request and its response, so tooling can predict what gets stored,
+ * shared and purged.
+ */
+
+export {
+  computeCacheKey,
+  DEFAULT_IDENTITY_HEADERS,
+  type CacheKeyOptions,
+} from "./cache-key.js";
+export { extractSurrogateKeys, surrogateKeyMatches } from "./surrogate-keys.js";
@@ -0,0 +1,98 @@
+/**
+ * Surrogate keys
+ *
+ * Tags a response with the entities it contains, so invalidation patterns
+ * ("Type:*", "Type:{id}", "Type:list") can purge it:
+ * - "Type" for every object with that `__typename`
+ * - "Type:<key>" for entities whose key fields were selected
+ * - "Type:list" for lists of the type
+ */
+
+import type { AnalyzedSchema } from "../types.js";
+
+/**
+ * Extract the sorted surrogate keys of a response. Accepts a full
+ * `{ data, errors }` response or just its data. Objects without
+ * `__typename` can't be tagged.
+ */
+export function extractSurrogateKeys(response: unknown, schema: AnalyzedSchema): string[] {
+  const keyFields = new Map<string, string[]>();
+  for (const entity of schema.entities) {
+    if (entity.hasId && entity.keyFields.length > 0) {
+      keyFields.set(entity.name, entity.keyFields);
+    }
+  }
+
+  const data = isObject(response) && "data" in response ? response.data : response;
+  const keys = new Set<string>();
+  collectKeys(data, keyFields, keys);
+  return [...keys].sort();
+}
+
+/**
+ * Whether an invalidation pattern purges a surrogate key. "Type:*" matches
+ * the type tag and every key of the type; unresolved "{field}" placeholders
+ * match any instance key, but not "Type:list".
+ */
+export function surrogateKeyMatches(pattern: string, key: string): boolean {
+  const [type, ...segments] = pattern.split(":");
+  if (segments.length === 1 && segments[0] === "*") {
+    return key === type || key.startsWith(`${type}:`);
+  }
+
+  if (key === `${type}:list`) {
+    return pattern === key;
+  }
+
+  const keySegments = key.split(":");
+  if (keySegments.length !== segments.length + 1 || keySegments[0] !== type) {
+    return false;
+  }
+  return segments.every(
+    (segment, i) => /^\{.+\}$/.test(segment) || segment === keySegments[i + 1]
+  );
+}
+
+function collectKeys(value: unknown, keyFields: Map<string, string[]>, keys: Set<string>): void {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (isObject(item) && typeof item.__typename === "string") {
+        keys.add(`${item.__typename}:list`);
+      }
+      collectKeys(item, keyFields, keys);
+    }
+    return;
+  }
+  if (!isObject(value)) return;
+
+  if (typeof value.__typename === "string") {
+    const type = value.__typename;
+    keys.add(type);
+
+    const fields = keyFields.get(type);
+    const values = fields?.map((field) => readPath(value, field));
+    if (values?.every((v) => typeof v === "string" || typeof v === "number")) {
+      keys.add(`${type}:${values.join(":")}`);
+    }
+  }
+
+  for (const child of Object.values(value)) {
+    collectKeys(child, keyFields, keys);
+  }
+}
+
+/**
+ * Read a dotted key field path (e.g. "organization.id")
+ */
+function readPath(value: Record<string, unknown>, path: string): unknown {
+  let current: unknown = value;
+  for (const segment of path.split(".")) {
+    if (!isObject(current)) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
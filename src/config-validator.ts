@@ -0,0 +1,20 @@
+/**
+ * Config Validator
+ *
+ * Checks Orion cache configs against the published JSON Schema of the
+ * config format and, given an analyzed schema, against the types, fields,
+ * mutations and data traits they describe.
+ *
+ * @module config-validator
+ */
+
+export {
+  // Validation
+  validateConfig,
+
+  // JSON Schema
+  ORION_CONFIG_SCHEMA,
+  checkJsonSchema,
+  type JsonSchema,
+  type JsonSchemaViolation,
+} from "./config-validator/index.js";
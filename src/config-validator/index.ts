@@ -0,0 +1,64 @@
+/**
+ * Config Validator
+ *
+ * Validates an Orion cache config's structure against its JSON Schema and,
+ * given an analyzed schema, its semantics: rules and patterns must name
+ * existing types, fields and mutations, and sensitive data must not be
+ * cached in shared caches.
+ */
+
+import type {
+  AnalyzedSchema,
+  ConfigDiagnostic,
+  ConfigValidationResult,
+  DiagnosticSeverity,
+  OrionCacheConfig,
+} from "../types.js";
+
+import { checkJsonSchema, ORION_CONFIG_SCHEMA } from "./json-schema.js";
+import { checkInvalidations, checkRuleReferences, checkRules, checkSharedData } from "./semantics.js";
+
+// Re-exports
+export { ORION_CONFIG_SCHEMA, checkJsonSchema, type JsonSchema, type JsonSchemaViolation } from "./json-schema.js";
+
+/**
+ * Validates a cache config.
+ *
+ * Structural problems (missing or mistyped properties, negative TTLs,
+ * malformed selectors and patterns) are errors. Semantic checks run once
+ * the config has the right shape; those needing the schema only run when
+ * one is given.
+ *
+ * @param config - Config to validate, e.g. parsed from JSON
+ * @param schema - Analyzed schema to check references and data traits against
+ * @returns Diagnostics in discovery order; valid when none is an error
+ */
+export function validateConfig(config: unknown, schema?: AnalyzedSchema): ConfigValidationResult {
+  const violations = checkJsonSchema(config, ORION_CONFIG_SCHEMA);
+  const diagnostics: ConfigDiagnostic[] = violations.map((v) => ({
+    type: "INVALID_STRUCTURE",
+    severity: "error",
+    path: v.path,
+    message: `${v.path === "$" ? "Config" : v.path} ${v.message}`,
+  }));
+
+  // Semantic checks read the config's shape, but tolerate bad values
+  if (!violations.some((v) => v.keyword === "type" || v.keyword === "required")) {
+    const valid = config as OrionCacheConfig;
+    diagnostics.push(...checkRules(valid));
+    if (schema) {
+      diagnostics.push(
+        ...checkRuleReferences(valid, schema),
+        ...checkSharedData(valid, schema),
+        ...checkInvalidations(valid, schema)
+      );
+    }
+  }
+
+  const summary: Record<DiagnosticSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const diagnostic of diagnostics) {
+    summary[diagnostic.severity]++;
+  }
+
+  return { valid: summary.error === 0, diagnostics, summary };
+}
@@ -0,0 +1,214 @@
+/**
+ * JSON Schema for the Orion cache config format
+ *
+ * The schema is published for editors and CI tooling; `checkJsonSchema`
+ * interprets the subset of keywords it uses, so structural validation
+ * needs no schema validator dependency.
+ */
+
+/** GraphQL name */
+const NAME = "^[_A-Za-z][_0-9A-Za-z]*$";
+
+/** "Type.field" selector */
+const SELECTOR = "^[_A-Za-z][_0-9A-Za-z]*\\.[_A-Za-z][_0-9A-Za-z]*$";
+
+/**
+ * Invalidation pattern: "Type:*", "Type:list", or ":"-joined key segments,
+ * each a literal value or a "{field.path}" placeholder
+ */
+const PATTERN =
+  "^[_A-Za-z][_0-9A-Za-z]*:(\\*|(\\{[_A-Za-z][_0-9A-Za-z.]*\\}|[^:{}*]+)(:(\\{[_A-Za-z][_0-9A-Za-z.]*\\}|[^:{}*]+))*)$";
+
+/**
+ * A JSON Schema (draft 2020-12) subset: the keywords `ORION_CONFIG_SCHEMA` uses
+ */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  minLength?: number;
+  pattern?: string;
+  enum?: unknown[];
+}
+
+/**
+ * A value that violates the schema
+ */
+export interface JsonSchemaViolation {
+  /** JSON path of the value (e.g., "$.rules[0].maxAge") */
+  path: string;
+
+  /** Keyword the value violates */
+  keyword: "type" | "required" | "additionalProperties" | "enum" | "minimum" | "minLength" | "pattern";
+
+  message: string;
+}
+
+const TTL: JsonSchema = {
+  type: "number",
+  minimum: 0,
+  description: "Seconds",
+};
+
+/**
+ * JSON Schema of `OrionCacheConfig`
+ */
+export const ORION_CONFIG_SCHEMA: JsonSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "OrionCacheConfig",
+  description: "Edge cache rules and mutation invalidations for a GraphQL API",
+  type: "object",
+  required: ["version", "name", "defaults", "rules", "invalidations"],
+  additionalProperties: false,
+  properties: {
+    version: { type: "string", minLength: 1 },
+    name: { type: "string", minLength: 1 },
+    defaults: {
+      type: "object",
+      description: "Policy of types no rule covers",
+      required: ["maxAge", "staleWhileRevalidate", "staleIfError"],
+      additionalProperties: false,
+      properties: {
+        maxAge: TTL,
+        staleWhileRevalidate: TTL,
+        staleIfError: TTL,
+      },
+    },
+    rules: {
+      type: "array",
+      description: "Cache rules; the first rule for a type or field wins",
+      items: {
+        type: "object",
+        required: ["types"],
+        additionalProperties: false,
+        properties: {
+          types: { type: "array", items: { type: "string", pattern: NAME, description: "type name" } },
+          fields: {
+            type: "array",
+            description: '"Type.field" selectors, which take precedence over type rules',
+            items: { type: "string", pattern: SELECTOR, description: "Type.field selector" },
+          },
+          maxAge: TTL,
+          staleWhileRevalidate: TTL,
+          staleIfError: TTL,
+          scope: { enum: ["public", "private"] },
+          passthrough: { type: "boolean" },
+        },
+      },
+    },
+    invalidations: {
+      type: "object",
+      description: "Invalidation patterns, by mutation name",
+      additionalProperties: {
+        type: "array",
+        items: { type: "string", pattern: PATTERN, description: "invalidation pattern" },
+      },
+    },
+    invalidationPaths: {
+      type: "object",
+      description: "Why transitive invalidation patterns were added, by mutation name",
+      additionalProperties: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["pattern", "source", "path"],
+          additionalProperties: false,
+          properties: {
+            pattern: { type: "string" },
+            source: { type: "string" },
+            path: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Check a value against a schema, collecting every violation
+ */
+export function checkJsonSchema(value: unknown, schema: JsonSchema, path = "$"): JsonSchemaViolation[] {
+  const violations: JsonSchemaViolation[] = [];
+  const fail = (keyword: JsonSchemaViolation["keyword"], message: string) =>
+    violations.push({ path, keyword, message });
+
+  if (schema.enum && !schema.enum.some((v) => v === value)) {
+    fail("enum", `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+    return violations;
+  }
+
+  if (schema.type && jsonType(value) !== schema.type) {
+    if (!(schema.type === "number" && jsonType(value) === "integer")) {
+      fail("type", `must be ${article(schema.type)}, got ${jsonType(value)}`);
+      return violations;
+    }
+  }
+
+  if (typeof value === "number" && schema.minimum !== undefined && value < schema.minimum) {
+    fail("minimum", `must be at least ${schema.minimum}, got ${value}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail("minLength", value.length === 0 ? "must not be empty" : `must have ${schema.minLength}+ characters`);
+    } else if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      fail("pattern", `"${value}" is not a valid ${schema.description ?? `match for ${schema.pattern}`}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      violations.push(...checkJsonSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  if (jsonType(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        fail("required", `is missing required property "${key}"`);
+      }
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        violations.push(...checkJsonSchema(item, property, jsonPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        violations.push({
+          path: jsonPath(path, key),
+          keyword: "additionalProperties",
+          message: "is not a known property",
+        });
+      } else if (typeof schema.additionalProperties === "object") {
+        violations.push(...checkJsonSchema(item, schema.additionalProperties, jsonPath(path, key)));
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Append a property to a JSON path, bracketing keys that aren't identifiers
+ */
+export function jsonPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return /^[_A-Za-z$][_0-9A-Za-z$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
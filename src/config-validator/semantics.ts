@@ -0,0 +1,307 @@
+/**
+ * Semantic config checks
+ *
+ * Checks that hold for structurally valid configs: rules that never apply
+ * or contradict each other, and, against an analyzed schema, references to
+ * types, fields and mutations that don't exist and sensitive or
+ * user-specific data cached in shared caches.
+ */
+
+import type {
+  AnalyzedSchema,
+  CachePolicy,
+  ClassifiedTrait,
+  ConfigDiagnostic,
+  EntityType,
+  OrionCacheConfig,
+} from "../types.js";
+
+import { findTypeRule, resolveFieldPolicy, toPolicy } from "../ai-config-generator/policy.js";
+import { unwrapType } from "../analyzer/type-utils.js";
+import { jsonPath } from "./json-schema.js";
+
+/** Type kinds a rule can select */
+const OUTPUT_KINDS = new Set(["OBJECT", "INTERFACE", "UNION"]);
+
+/**
+ * Check how rules relate to each other: empty rules, types and fields
+ * listed by several rules, and passthrough rules that set TTLs
+ */
+export function checkRules(config: OrionCacheConfig): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+  const typeOwners = new Map<string, number>();
+  const fieldOwners = new Map<string, number>();
+
+  config.rules.forEach((rule, index) => {
+    const path = jsonPath("$.rules", index);
+
+    if (rule.types.length === 0 && (rule.fields ?? []).length === 0) {
+      diagnostics.push({
+        type: "EMPTY_RULE",
+        severity: "warning",
+        path,
+        message: "Rule selects no types or fields and never applies",
+      });
+    }
+
+    if (rule.passthrough) {
+      for (const setting of ["maxAge", "staleWhileRevalidate", "staleIfError"] as const) {
+        const value = rule[setting];
+        if (value !== undefined && value > 0) {
+          diagnostics.push({
+            type: "PASSTHROUGH_WITH_TTL",
+            severity: "warning",
+            path: jsonPath(path, setting),
+            message: `Passthrough rule sets ${setting} ${value}, which is ignored since passthrough responses are never cached`,
+          });
+        }
+      }
+    }
+
+    const selections: Array<[string, string[] | undefined, Map<string, number>]> = [
+      ["types", rule.types, typeOwners],
+      ["fields", rule.fields, fieldOwners],
+    ];
+    for (const [key, selected, owners] of selections) {
+      selected?.forEach((name, position) => {
+        const owner = owners.get(name);
+        if (owner === undefined) {
+          owners.set(name, index);
+          return;
+        }
+        if (owner === index) return;
+
+        const first = config.rules[owner]!;
+        const same = samePolicy(toPolicy(config, first), toPolicy(config, rule));
+        diagnostics.push({
+          type: same ? "DUPLICATE_RULE" : "CONFLICTING_RULES",
+          severity: same ? "info" : "warning",
+          path: jsonPath(jsonPath(path, key), position),
+          message: same
+            ? `"${name}" is already covered by rules[${owner}] with the same policy`
+            : `"${name}" is already covered by rules[${owner}] (${describePolicy(toPolicy(config, first))}); ` +
+              `this rule's policy (${describePolicy(toPolicy(config, rule))}) never applies to it`,
+        });
+      });
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Check that rule types and field selectors exist in the schema
+ */
+export function checkRuleReferences(config: OrionCacheConfig, schema: AnalyzedSchema): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+
+  config.rules.forEach((rule, index) => {
+    const path = jsonPath("$.rules", index);
+
+    rule.types.forEach((name, position) => {
+      const problem = typeProblem(schema, name);
+      if (problem) {
+        diagnostics.push({
+          type: "UNKNOWN_TYPE",
+          severity: "error",
+          path: jsonPath(jsonPath(path, "types"), position),
+          message: problem,
+        });
+      }
+    });
+
+    rule.fields?.forEach((selector, position) => {
+      const dot = selector.indexOf(".");
+      if (dot === -1) return;
+      const typeName = selector.slice(0, dot);
+      const fieldName = selector.slice(dot + 1);
+      const fieldPath = jsonPath(jsonPath(path, "fields"), position);
+
+      const type = schema.typeMap.get(typeName);
+      if (!type) {
+        diagnostics.push({
+          type: "UNKNOWN_TYPE",
+          severity: "error",
+          path: fieldPath,
+          message: `Type "${typeName}" does not exist in the schema`,
+        });
+      } else if (!type.fields?.some((f) => f.name === fieldName)) {
+        diagnostics.push({
+          type: "UNKNOWN_FIELD",
+          severity: "error",
+          path: fieldPath,
+          message: `Type "${typeName}" has no field "${fieldName}"`,
+        });
+      }
+    });
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Check that types with sensitive or user-specific data aren't cached in
+ * shared caches: their effective policy, or that of every such field, must
+ * be private or passthrough
+ */
+export function checkSharedData(config: OrionCacheConfig, schema: AnalyzedSchema): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+  const checks: Array<
+    ["hasSensitiveFields" | "isUserSpecific", ConfigDiagnostic["type"], ConfigDiagnostic["severity"], string]
+  > = [
+    ["hasSensitiveFields", "SENSITIVE_TYPE_PUBLIC", "error", "sensitive"],
+    ["isUserSpecific", "USER_SPECIFIC_TYPE_PUBLIC", "warning", "user-specific"],
+  ];
+
+  for (const entity of schema.entities) {
+    if (entity.characteristics.isRootType) continue;
+
+    const rule = findTypeRule(config, entity.name);
+    const index = rule ? config.rules.indexOf(rule) : -1;
+    if (!isShared(toPolicy(config, rule))) continue;
+
+    for (const [trait, type, severity, label] of checks) {
+      if (!entity.characteristics[trait]) continue;
+
+      const exposed = exposedFields(config, entity, trait);
+      if (exposed?.length === 0) continue;
+
+      const fields = exposed ? ` (${exposed.join(", ")})` : "";
+      diagnostics.push({
+        type,
+        severity,
+        path: rule ? jsonPath(jsonPath("$.rules", index), "scope") : "$.defaults",
+        message: rule
+          ? `Type "${entity.name}" has ${label} data${fields} but rules[${index}] caches it publicly; ` +
+            `use private scope or passthrough for the type or those fields`
+          : `Type "${entity.name}" has ${label} data${fields} but no rule, so the public defaults cache it; ` +
+            `add a private or passthrough rule${abstractRuleHint(config, schema, entity.name)}`,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Check invalidation keys name mutations, and that patterns reference
+ * existing types and key fields
+ */
+export function checkInvalidations(config: OrionCacheConfig, schema: AnalyzedSchema): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+  const mutations = new Set(schema.mutations.map((m) => m.name));
+
+  for (const [mutation, patterns] of Object.entries(config.invalidations)) {
+    const path = jsonPath("$.invalidations", mutation);
+    if (!mutations.has(mutation)) {
+      diagnostics.push({
+        type: "UNKNOWN_MUTATION",
+        severity: "warning",
+        path,
+        message: `Mutation "${mutation}" does not exist in the schema, so its patterns never fire`,
+      });
+    }
+
+    patterns.forEach((pattern, position) => {
+      const colon = pattern.indexOf(":");
+      if (colon === -1) return;
+      const patternPath = jsonPath(path, position);
+      const typeName = pattern.slice(0, colon);
+
+      const problem = typeProblem(schema, typeName);
+      if (problem) {
+        diagnostics.push({ type: "UNKNOWN_TYPE", severity: "error", path: patternPath, message: problem });
+        return;
+      }
+
+      for (const [, placeholder] of pattern.slice(colon + 1).matchAll(/\{([^{}]+)\}/g)) {
+        const missing = missingPathSegment(schema, typeName, placeholder!);
+        if (missing) {
+          diagnostics.push({
+            type: "UNKNOWN_PATTERN_FIELD",
+            severity: "warning",
+            path: patternPath,
+            message: `Placeholder "{${placeholder}}" does not resolve on "${typeName}": ${missing}`,
+          });
+        }
+      }
+    });
+  }
+
+  return diagnostics;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Why a type name can't be selected by a rule or pattern, or null if it can
+ */
+function typeProblem(schema: AnalyzedSchema, name: string): string | null {
+  const type = schema.typeMap.get(name);
+  if (!type) return `Type "${name}" does not exist in the schema`;
+  if (!OUTPUT_KINDS.has(type.kind)) {
+    return `Type "${name}" is ${type.kind === "INPUT_OBJECT" ? "an input object" : `a ${type.kind.toLowerCase()}`}, not an object, interface or union`;
+  }
+  return null;
+}
+
+/**
+ * Note for a type whose interface or union has a rule: such rules don't
+ * apply to members (see `findTypeRule`)
+ */
+function abstractRuleHint(config: OrionCacheConfig, schema: AnalyzedSchema, typeName: string): string {
+  const parent = schema.abstractTypes.find(
+    (a) => a.possibleTypes.includes(typeName) && findTypeRule(config, a.name)
+  );
+  return parent
+    ? ` (the rule for "${parent.name}" doesn't apply to its members; list "${typeName}" in it)`
+    : "";
+}
+
+/**
+ * Fields carrying a trait that a shared-cached type exposes. Fields with
+ * their own private or passthrough rule are covered. Null when no field
+ * carries the trait itself, so the whole type is exposed.
+ */
+function exposedFields(config: OrionCacheConfig, entity: EntityType, trait: ClassifiedTrait): string[] | null {
+  const traited = entity.fields.filter((f) => f.traits?.includes(trait));
+  if (traited.length === 0) {
+    return null;
+  }
+  return traited.filter((f) => isShared(resolveFieldPolicy(config, entity.name, f.name))).map((f) => f.name);
+}
+
+/**
+ * Follow a placeholder's dotted field path from a type; describes the first
+ * segment that doesn't resolve, or returns null
+ */
+function missingPathSegment(schema: AnalyzedSchema, typeName: string, path: string): string | null {
+  let current = typeName;
+  for (const segment of path.split(".")) {
+    const field = schema.typeMap.get(current)?.fields?.find((f) => f.name === segment);
+    if (!field) return `"${current}" has no field "${segment}"`;
+    current = unwrapType(field.type).typeName;
+  }
+  return null;
+}
+
+function isShared(policy: CachePolicy): boolean {
+  return policy.scope === "public" && !policy.passthrough;
+}
+
+function samePolicy(a: CachePolicy, b: CachePolicy): boolean {
+  return (
+    a.passthrough === b.passthrough &&
+    a.scope === b.scope &&
+    a.maxAge === b.maxAge &&
+    a.staleWhileRevalidate === b.staleWhileRevalidate &&
+    a.staleIfError === b.staleIfError
+  );
+}
+
+function describePolicy(policy: CachePolicy): string {
+  if (policy.passthrough) return "passthrough";
+  return `maxAge ${policy.maxAge}, swr ${policy.staleWhileRevalidate}, sie ${policy.staleIfError}, ${policy.scope}`;
+}
@@ -0,0 +1,17 @@
+/**
+ * Graph Export
+ *
+ * Renders entities, relationships, mutation impact and cache rule groupings
+ * as Graphviz DOT, Mermaid or node/edge JSON.
+ *
+ * @module graph-export
+ */
+
+export {
+  buildSchemaGraph,
+  exportSchemaGraph,
+  renderDot,
+  renderMermaid,
+  type GraphExportOptions,
+  type GraphFormat,
+} from "./graph-export/index.js";
@@ -0,0 +1,97 @@
+/**
+ * Graphviz DOT rendering
+ */
+
+import type { GraphEdge, GraphNode, GraphNodeTag, SchemaGraph } from "../types.js";
+
+/** Fill color per characteristic tag, applied by the node's first tag */
+export const DOT_TAG_COLORS: Record<GraphNodeTag, string> = {
+  sensitive: "#f8d7da",
+  "user-specific": "#fff3cd",
+  "real-time": "#e2d9f3",
+  volatile: "#ffe5d0",
+  collection: "#d1ecf1",
+  stable: "#d4edda",
+};
+
+/**
+ * Render a schema graph as a Graphviz digraph. Cache rule groups become
+ * clusters; to-many relationships use crow's-foot arrowheads.
+ */
+export function renderDot(graph: SchemaGraph): string {
+  const lines = [
+    "digraph schema {",
+    "  rankdir=LR;",
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica", fillcolor="#ffffff"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  const nodesById = new Map(graph.nodes.map((n) => [n.id, n]));
+  const grouped = new Set<string>();
+
+  for (const group of graph.groups) {
+    lines.push("", `  subgraph cluster_${group.id} {`, `    label=${quote(group.label)};`, "    style=dashed;");
+    for (const id of group.nodes) {
+      const node = nodesById.get(id);
+      if (!node) continue;
+      grouped.add(id);
+      lines.push(`    ${renderNode(node)}`);
+    }
+    lines.push("  }");
+  }
+
+  lines.push("");
+  for (const node of graph.nodes) {
+    if (!grouped.has(node.id)) {
+      lines.push(`  ${renderNode(node)}`);
+    }
+  }
+
+  lines.push("");
+  for (const edge of graph.edges) {
+    lines.push(`  ${renderEdge(edge)}`);
+  }
+
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+function renderNode(node: GraphNode): string {
+  const attrs: string[] = [];
+  switch (node.kind) {
+    case "entity": {
+      const color = DOT_TAG_COLORS[node.tags[0] ?? "stable"];
+      attrs.push(`label=${quote(node.label)}`, `fillcolor=${quote(color)}`, `tooltip=${quote(node.tags.join(", "))}`);
+      break;
+    }
+    case "interface":
+    case "union":
+      attrs.push(`label=${quote(`${node.label}\n«${node.kind}»`)}`, "shape=ellipse", 'fillcolor="#e2e3e5"');
+      break;
+    case "mutation":
+      attrs.push(`label=${quote(node.label)}`, "shape=hexagon", 'fillcolor="#cfe2ff"');
+      break;
+  }
+  return `${quote(node.id)} [${attrs.join(", ")}];`;
+}
+
+function renderEdge(edge: GraphEdge): string {
+  const attrs: string[] = [];
+  switch (edge.kind) {
+    case "relationship":
+      attrs.push(`label=${quote(edge.label)}`);
+      if (edge.cardinality === "many") attrs.push("arrowhead=crow");
+      break;
+    case "member":
+      attrs.push("style=dotted", "arrowhead=empty");
+      break;
+    case "invalidates":
+      attrs.push(`label=${quote(edge.label)}`, "style=dashed", 'color="#dc3545"', 'fontcolor="#dc3545"');
+      break;
+  }
+  return `${quote(edge.from)} -> ${quote(edge.to)} [${attrs.join(", ")}];`;
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
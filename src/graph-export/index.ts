@@ -0,0 +1,172 @@
+/**
+ * Graph Export
+ *
+ * Builds a node/edge graph of entities, relationships, mutation impact and
+ * cache rule groupings, and renders it as Graphviz DOT, Mermaid or JSON.
+ */
+
+import type {
+  AnalyzedSchema,
+  EntityType,
+  GraphEdge,
+  GraphGroup,
+  GraphNode,
+  GraphNodeTag,
+  OrionCacheConfig,
+  OrionCacheRule,
+  SchemaGraph,
+} from "../types.js";
+
+import { renderDot } from "./dot.js";
+import { renderMermaid } from "./mermaid.js";
+
+// Re-exports
+export { renderDot } from "./dot.js";
+export { renderMermaid } from "./mermaid.js";
+
+export type GraphFormat = "dot" | "mermaid" | "json";
+
+/**
+ * Options for building the schema graph
+ */
+export interface GraphExportOptions {
+  /** Cache config whose rules become groups (DOT clusters, Mermaid subgraphs) */
+  config?: OrionCacheConfig;
+
+  /** Include mutations and the types they invalidate (default: true) */
+  mutations?: boolean;
+
+  /** Only include these types, plus mutations affecting them */
+  types?: string[];
+}
+
+/**
+ * Build the node/edge graph of an analyzed schema
+ */
+export function buildSchemaGraph(
+  schema: AnalyzedSchema,
+  options: GraphExportOptions = {}
+): SchemaGraph {
+  const include = (name: string) => !options.types || options.types.includes(name);
+
+  const nodes: GraphNode[] = [];
+  for (const entity of schema.entities) {
+    if (entity.characteristics.isRootType || !include(entity.name)) continue;
+    nodes.push({ id: entity.name, label: entity.name, kind: "entity", tags: entityTags(entity) });
+  }
+  for (const abstractType of schema.abstractTypes) {
+    if (!include(abstractType.name)) continue;
+    const kind = abstractType.kind === "UNION" ? "union" : "interface";
+    nodes.push({ id: abstractType.name, label: abstractType.name, kind, tags: [] });
+  }
+
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const edges: GraphEdge[] = [];
+  const seen = new Set<string>();
+  const addEdge = (edge: GraphEdge) => {
+    const key = `${edge.kind}:${edge.from}:${edge.to}:${edge.label}`;
+    if (seen.has(key) || !nodeIds.has(edge.from) || !nodeIds.has(edge.to)) return;
+    seen.add(key);
+    edges.push(edge);
+  };
+
+  // Fields returning an interface or union point at the abstract type, which
+  // points at its members
+  for (const rel of schema.relationships) {
+    if (rel.direction !== "outgoing") continue;
+    addEdge({
+      from: rel.from,
+      to: rel.via ?? rel.to,
+      kind: "relationship",
+      label: rel.fieldName,
+      cardinality: rel.isList ? "many" : "one",
+    });
+  }
+  for (const abstractType of schema.abstractTypes) {
+    for (const member of abstractType.possibleTypes) {
+      addEdge({ from: abstractType.name, to: member, kind: "member", label: "" });
+    }
+  }
+
+  if (options.mutations ?? true) {
+    for (const mutation of schema.mutations) {
+      const affected = mutation.affectedTypeDetails.filter(
+        (a) => mutation.affectedTypes.includes(a.type) && nodeIds.has(a.type)
+      );
+      if (affected.length === 0) continue;
+
+      const id = `Mutation.${mutation.name}`;
+      nodes.push({ id, label: mutation.name, kind: "mutation", tags: [] });
+      nodeIds.add(id);
+      for (const a of affected) {
+        addEdge({ from: id, to: a.type, kind: "invalidates", label: String(a.confidence) });
+      }
+    }
+  }
+
+  return {
+    nodes,
+    edges,
+    groups: options.config ? ruleGroups(options.config, nodeIds) : [],
+  };
+}
+
+/**
+ * Render the schema graph in the given format
+ */
+export function exportSchemaGraph(
+  schema: AnalyzedSchema,
+  format: GraphFormat,
+  options: GraphExportOptions = {}
+): string {
+  const graph = buildSchemaGraph(schema, options);
+  switch (format) {
+    case "dot":
+      return renderDot(graph);
+    case "mermaid":
+      return renderMermaid(graph);
+    case "json":
+      return JSON.stringify(graph, null, 2);
+  }
+}
+
+/**
+ * Characteristic tags of an entity, most significant first
+ */
+function entityTags(entity: EntityType): GraphNodeTag[] {
+  const chars = entity.characteristics;
+  const tags: GraphNodeTag[] = [];
+  if (chars.hasSensitiveFields) tags.push("sensitive");
+  if (chars.isUserSpecific) tags.push("user-specific");
+  if (chars.hasSubscription) tags.push("real-time");
+  if (chars.isVolatile) tags.push("volatile");
+  if (chars.isCollection) tags.push("collection");
+  return tags.length > 0 ? tags : ["stable"];
+}
+
+/**
+ * One group per type rule; a node belongs to the first rule naming it
+ */
+function ruleGroups(config: OrionCacheConfig, nodeIds: Set<string>): GraphGroup[] {
+  const grouped = new Set<string>();
+  const groups: GraphGroup[] = [];
+
+  config.rules.forEach((rule, index) => {
+    const nodes = rule.types.filter((t) => nodeIds.has(t) && !grouped.has(t));
+    if (nodes.length === 0) return;
+    nodes.forEach((t) => grouped.add(t));
+    groups.push({ id: `rule${index}`, label: formatRule(rule), nodes });
+  });
+
+  return groups;
+}
+
+function formatRule(rule: OrionCacheRule): string {
+  if (rule.passthrough) return "passthrough";
+  const parts: string[] = [];
+  if (rule.maxAge !== undefined) parts.push(`maxAge=${rule.maxAge}`);
+  if (rule.staleWhileRevalidate) parts.push(`swr=${rule.staleWhileRevalidate}`);
+  if (rule.staleIfError) parts.push(`sie=${rule.staleIfError}`);
+  if (rule.scope === "private") parts.push("private");
+  return parts.join(", ") || "defaults";
+}
@@ -0,0 +1,96 @@
+/**
+ * Mermaid flowchart rendering
+ */
+
+import type { GraphEdge, GraphNode, GraphNodeTag, SchemaGraph } from "../types.js";
+
+import { DOT_TAG_COLORS } from "./dot.js";
+
+/** Words Mermaid reads as syntax when used as node ids */
+const RESERVED_IDS = new Set(["end", "graph", "subgraph", "flowchart", "class", "classDef", "style", "click"]);
+
+/**
+ * Render a schema graph as a Mermaid flowchart, which GitHub renders in
+ * Markdown. Cache rule groups become subgraphs and characteristic tags
+ * become classes.
+ */
+export function renderMermaid(graph: SchemaGraph): string {
+  const lines = ["flowchart LR"];
+
+  const nodesById = new Map(graph.nodes.map((n) => [n.id, n]));
+  const grouped = new Set<string>();
+
+  for (const group of graph.groups) {
+    lines.push(`  subgraph ${group.id}[${quote(group.label)}]`);
+    for (const id of group.nodes) {
+      const node = nodesById.get(id);
+      if (!node) continue;
+      grouped.add(id);
+      lines.push(`    ${renderNode(node)}`);
+    }
+    lines.push("  end");
+  }
+
+  for (const node of graph.nodes) {
+    if (!grouped.has(node.id)) {
+      lines.push(`  ${renderNode(node)}`);
+    }
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${renderEdge(edge)}`);
+  }
+
+  // Color entities by their first tag
+  const usedTags = new Set<GraphNodeTag>();
+  for (const node of graph.nodes) {
+    const tag = node.tags[0];
+    if (node.kind !== "entity" || !tag) continue;
+    usedTags.add(tag);
+    lines.push(`  class ${nodeId(node.id)} ${className(tag)}`);
+  }
+  for (const tag of usedTags) {
+    lines.push(`  classDef ${className(tag)} fill:${DOT_TAG_COLORS[tag]},stroke:#555`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function renderNode(node: GraphNode): string {
+  const id = nodeId(node.id);
+  switch (node.kind) {
+    case "entity":
+      return `${id}[${quote(node.label)}]`;
+    case "interface":
+    case "union":
+      return `${id}([${quote(`${node.label} «${node.kind}»`)}])`;
+    case "mutation":
+      return `${id}{{${quote(node.label)}}}`;
+  }
+}
+
+function renderEdge(edge: GraphEdge): string {
+  const from = nodeId(edge.from);
+  const to = nodeId(edge.to);
+  switch (edge.kind) {
+    case "relationship":
+      return `${from} -->|${quote(`${edge.label} ${edge.cardinality === "many" ? "(1..*)" : "(1)"}`)}| ${to}`;
+    case "member":
+      return `${from} -.- ${to}`;
+    case "invalidates":
+      return `${from} -.->|${quote(edge.label)}| ${to}`;
+  }
+}
+
+function nodeId(id: string): string {
+  const safe = id.replace(/\W/g, "_");
+  return RESERVED_IDS.has(safe) ? `${safe}_` : safe;
+}
+
+function className(tag: GraphNodeTag): string {
+  return tag.replace(/-/g, "_");
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/"/g, "#quot;")}"`;
+}
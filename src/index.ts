@@ -7,7 +7,14 @@
 
 export * from "./types.js";
 export * from "./introspection.js";
+export * from "./sdl.js";
 export * from "./analyzer.js";
+export * from "./schema-diff.js";
+export * from "./graph-export.js";
+export * from "./operations.js";
+export * from "./cache-keys.js";
+export * from "./simulator.js";
+export * from "./config-validator.js";
 export * from "./ai-config-generator.js";
 export * from "./credentials.js";
 export * from "./endpoint.js";
@@ -0,0 +1,60 @@
+/**
+ * Federation subgraph SDL
+ *
+ * Fetches a subgraph's SDL through the `_service { sdl }` field, which
+ * unlike introspection keeps federation directives such as @key.
+ */
+
+import type { IntrospectionResult } from "./index.js";
+import type { TransportAttempt, TransportOptions } from "./transport.js";
+
+import { buildSchemaFromSDL } from "../sdl/schema-builder.js";
+import { executeQuery } from "./transport.js";
+
+export const SUBGRAPH_SDL_QUERY = "query SubgraphSDL { _service { sdl } }";
+
+export interface SubgraphSchemaResult extends IntrospectionResult {
+  /** Raw subgraph SDL, for federation-aware analysis */
+  sdl?: string;
+}
+
+/**
+ * Fetches a federation subgraph's schema via `_service { sdl }`.
+ *
+ * Federation types (`_Any`, `FieldSet`, ...) that the subgraph references
+ * without defining are built as custom scalars.
+ *
+ * @param options - Transport options including endpoint and headers
+ * @returns The schema and raw SDL, or an error
+ */
+export async function fetchSubgraphSchema(
+  options: TransportOptions
+): Promise<SubgraphSchemaResult> {
+  const attempts: TransportAttempt[] = [];
+  const outcome = await executeQuery(options, SUBGRAPH_SDL_QUERY, "SubgraphSDL", attempts);
+
+  if (!outcome.ok) {
+    return { success: false, error: outcome.error, attempts };
+  }
+
+  const sdl = (outcome.data._service as { sdl?: unknown } | null | undefined)?.sdl;
+  if (typeof sdl !== "string") {
+    return {
+      success: false,
+      error: "Invalid subgraph response: missing _service.sdl",
+      attempts,
+    };
+  }
+
+  try {
+    const schema = buildSchemaFromSDL(sdl, { allowUndefinedTypes: true });
+    return { success: true, schema, sdl, attempts };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to build subgraph schema",
+      sdl,
+      attempts,
+    };
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * GraphQL Schema Introspection
+ *
+ * Fetches and parses GraphQL schema from a server using introspection.
+ */
+
+import type { IntrospectionSchema, IntrospectionTypeRef } from "../types.js";
+
+import {
+  CAPABILITIES_QUERY,
+  DEFAULT_TYPE_REF_DEPTH,
+  LEGACY_CAPABILITIES,
+  MAX_TYPE_REF_DEPTH,
+  buildIntrospectionQuery,
+  type IntrospectionCapabilities,
+} from "./query-builder.js";
+import { executeQuery } from "./transport.js";
+import type { TransportAttempt, TransportOptions } from "./transport.js";
+
+// Re-exports
+export {
+  buildIntrospectionQuery,
+  LEGACY_CAPABILITIES,
+  type IntrospectionCapabilities,
+} from "./query-builder.js";
+export type { RetryOptions, TransportAttempt, TransportOptions } from "./transport.js";
+export {
+  fetchSubgraphSchema,
+  SUBGRAPH_SDL_QUERY,
+  type SubgraphSchemaResult,
+} from "./federation.js";
+
+// =============================================================================
+// INTROSPECTION FUNCTIONS
+// =============================================================================
+
+/**
+ * Introspection options. Transport options cover the endpoint, headers,
+ * timeout, HTTP method, persisted queries, retries, fetch and abort signal.
+ */
+export interface IntrospectionOptions extends TransportOptions {
+  /**
+   * Probe the server for optional introspection features before fetching
+   * (default: true). Ignored when `capabilities` is given.
+   */
+  detectCapabilities?: boolean;
+
+  /** Use these capabilities instead of probing the server */
+  capabilities?: IntrospectionCapabilities;
+
+  /**
+   * Initial TypeRef depth. Deepened automatically when a type is truncated.
+   */
+  typeRefDepth?: number;
+}
+
+export interface IntrospectionResult {
+  success: boolean;
+  schema?: IntrospectionSchema;
+  error?: string;
+
+  /** Introspection features used for the successful query */
+  capabilities?: IntrospectionCapabilities;
+
+  /** Every HTTP request made, in order, including probes and retries */
+  attempts?: TransportAttempt[];
+}
+
+/**
+ * Probes which optional introspection features a server supports.
+ *
+ * @param options - Introspection options including endpoint and headers
+ * @returns The supported capabilities, or null if the probe failed
+ */
+export async function detectCapabilities(
+  options: IntrospectionOptions,
+  attempts: TransportAttempt[] = []
+): Promise<IntrospectionCapabilities | null> {
+  const outcome = await executeQuery(
+    options,
+    CAPABILITIES_QUERY,
+    "IntrospectionCapabilities",
+    attempts
+  );
+  if (!outcome.ok) {
+    return null;
+  }
+
+  type MetaType = { fields?: Array<{ name: string; args?: Array<{ name: string }> }> } | null;
+  const data = outcome.data as Record<"type" | "field" | "directive" | "inputValue", MetaType>;
+
+  const fieldOf = (type: MetaType, name: string) =>
+    type?.fields?.find((f) => f.name === name);
+  const hasArg = (type: MetaType, field: string, arg: string) =>
+    !!fieldOf(type, field)?.args?.some((a) => a.name === arg);
+
+  return {
+    specifiedByURL: !!fieldOf(data.type, "specifiedByURL"),
+    directiveIsRepeatable: !!fieldOf(data.directive, "isRepeatable"),
+    inputValueDeprecation:
+      !!fieldOf(data.inputValue, "isDeprecated") &&
+      hasArg(data.field, "args", "includeDeprecated") &&
+      hasArg(data.type, "inputFields", "includeDeprecated"),
+    isOneOf: !!fieldOf(data.type, "isOneOf"),
+  };
+}
+
+/**
+ * Fetches the GraphQL schema from a server using introspection.
+ *
+ * Unless told otherwise, first probes the server for optional introspection
+ * features and requests the richest query it supports, falling back to the
+ * legacy query if the server rejects it. Type references are fetched deeper
+ * as needed so heavily wrapped types are never truncated.
+ *
+ * @param options - Introspection options including endpoint and headers
+ * @returns The introspection result with schema or error
+ */
+export async function fetchSchema(
+  options: IntrospectionOptions
+): Promise<IntrospectionResult> {
+  const attempts: TransportAttempt[] = [];
+
+  let capabilities = options.capabilities ?? LEGACY_CAPABILITIES;
+  if (!options.capabilities && options.detectCapabilities !== false) {
+    capabilities = (await detectCapabilities(options, attempts)) ?? LEGACY_CAPABILITIES;
+
+    // Stop if the caller aborted during the probe
+    if (options.signal?.aborted) {
+      return { success: false, error: "Request aborted", attempts };
+    }
+  }
+
+  let depth = options.typeRefDepth ?? DEFAULT_TYPE_REF_DEPTH;
+
+  for (;;) {
+    const outcome = await executeQuery(
+      options,
+      buildIntrospectionQuery(capabilities, depth),
+      "IntrospectionQuery",
+      attempts
+    );
+
+    if (!outcome.ok) {
+      // The server advertised more than it can answer; retry the safe query
+      if (outcome.isGraphQLError && capabilities !== LEGACY_CAPABILITIES) {
+        capabilities = LEGACY_CAPABILITIES;
+        continue;
+      }
+      return { success: false, error: outcome.error, attempts };
+    }
+
+    const schema = outcome.data.__schema as IntrospectionSchema | undefined;
+    if (!schema) {
+      return {
+        success: false,
+        error: "Invalid introspection response: missing __schema",
+        attempts,
+      };
+    }
+
+    if (hasTruncatedTypeRefs(schema) && depth < MAX_TYPE_REF_DEPTH) {
+      depth = Math.min(depth * 2, MAX_TYPE_REF_DEPTH);
+      continue;
+    }
+
+    return { success: true, schema, capabilities, attempts };
+  }
+}
+
+/**
+ * Whether any type reference ends in a wrapper without its inner type,
+ * meaning the TypeRef fragment was not deep enough. The innermost level
+ * of the fragment selects no `ofType`, so a truncated ref lacks the key.
+ */
+function hasTruncatedTypeRefs(schema: IntrospectionSchema): boolean {
+  const isTruncated = (ref: IntrospectionTypeRef | null): boolean => {
+    if (!ref) return false;
+    if (ref.kind === "LIST" || ref.kind === "NON_NULL") {
+      return ref.ofType == null || isTruncated(ref.ofType);
+    }
+    return false;
+  };
+  const anyTruncated = (values: Array<{ type: IntrospectionTypeRef }> | null | undefined) =>
+    !!values?.some((v) => isTruncated(v.type));
+
+  return (
+    schema.types.some(
+      (type) =>
+        anyTruncated(type.inputFields) ||
+        !!type.fields?.some((f) => isTruncated(f.type) || anyTruncated(f.args))
+    ) || schema.directives.some((d) => anyTruncated(d.args))
+  );
+}
+
+/**
+ * Validates that introspection is enabled on the server.
+ * Some servers disable introspection in production.
+ *
+ * @param endpoint - GraphQL endpoint URL
+ * @returns Whether introspection is enabled
+ */
+export async function isIntrospectionEnabled(
+  endpoint: string
+): Promise<boolean> {
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: "{ __schema { queryType { name } } }",
+      }),
+    });
+
+    const result = await response.json();
+    return !!(result.data?.__schema?.queryType);
+  } catch {
+    return false;
+  }
+}
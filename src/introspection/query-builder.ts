@@ -0,0 +1,149 @@
+/**
+ * Introspection query construction
+ */
+
+/**
+ * Optional introspection features a server may support. Older servers reject
+ * queries that ask for fields they don't know, so these are probed first.
+ */
+export interface IntrospectionCapabilities {
+  /** `__Type.specifiedByURL` (October 2021 spec) */
+  specifiedByURL: boolean;
+
+  /** `__Directive.isRepeatable` (June 2018 spec follow-up) */
+  directiveIsRepeatable: boolean;
+
+  /** `includeDeprecated` on args and input fields, `__InputValue.isDeprecated` */
+  inputValueDeprecation: boolean;
+
+  /** `__Type.isOneOf` (OneOf input objects) */
+  isOneOf: boolean;
+}
+
+/** Capabilities assumed when the server can't be probed */
+export const LEGACY_CAPABILITIES: IntrospectionCapabilities = {
+  specifiedByURL: false,
+  directiveIsRepeatable: false,
+  inputValueDeprecation: false,
+  isOneOf: false,
+};
+
+/** Initial number of levels in the TypeRef fragment */
+export const DEFAULT_TYPE_REF_DEPTH = 10;
+
+/** Upper bound when deepening the TypeRef fragment for truncated types */
+export const MAX_TYPE_REF_DEPTH = 32;
+
+/**
+ * Query used to discover which introspection fields the server supports.
+ * Only uses fields present since the first GraphQL release.
+ */
+export const CAPABILITIES_QUERY = `
+  query IntrospectionCapabilities {
+    type: __type(name: "__Type") { fields { name args { name } } }
+    field: __type(name: "__Field") { fields { name args { name } } }
+    directive: __type(name: "__Directive") { fields { name } }
+    inputValue: __type(name: "__InputValue") { fields { name } }
+  }
+`;
+
+/**
+ * Builds the introspection query for a set of server capabilities.
+ *
+ * @param capabilities - Optional features to request
+ * @param typeRefDepth - Number of type levels (wrappers + named type) to fetch
+ * @returns The introspection query text
+ */
+export function buildIntrospectionQuery(
+  capabilities: IntrospectionCapabilities = LEGACY_CAPABILITIES,
+  typeRefDepth = DEFAULT_TYPE_REF_DEPTH
+): string {
+  const includeDeprecated = capabilities.inputValueDeprecation
+    ? "(includeDeprecated: true)"
+    : "";
+  const inputDeprecation = capabilities.inputValueDeprecation
+    ? "\n    isDeprecated\n    deprecationReason"
+    : "";
+
+  return `
+  query IntrospectionQuery {
+    __schema {
+      queryType { name }
+      mutationType { name }
+      subscriptionType { name }
+      types {
+        ...FullType
+      }
+      directives {
+        name
+        description${capabilities.directiveIsRepeatable ? "\n        isRepeatable" : ""}
+        locations
+        args${includeDeprecated} {
+          ...InputValue
+        }
+      }
+    }
+  }
+
+  fragment FullType on __Type {
+    kind
+    name
+    description${capabilities.specifiedByURL ? "\n    specifiedByURL" : ""}${capabilities.isOneOf ? "\n    isOneOf" : ""}
+    fields(includeDeprecated: true) {
+      name
+      description
+      args${includeDeprecated} {
+        ...InputValue
+      }
+      type {
+        ...TypeRef
+      }
+      isDeprecated
+      deprecationReason
+    }
+    inputFields${includeDeprecated} {
+      ...InputValue
+    }
+    interfaces {
+      ...TypeRef
+    }
+    enumValues(includeDeprecated: true) {
+      name
+      description
+      isDeprecated
+      deprecationReason
+    }
+    possibleTypes {
+      ...TypeRef
+    }
+  }
+
+  fragment InputValue on __InputValue {
+    name
+    description
+    type {
+      ...TypeRef
+    }
+    defaultValue${inputDeprecation}
+  }
+
+  fragment TypeRef on __Type {
+${buildTypeRefSelection(typeRefDepth, "    ")}
+  }
+`;
+}
+
+/**
+ * Nested `kind name ofType { ... }` selection, `depth` levels deep
+ */
+function buildTypeRefSelection(depth: number, indent: string): string {
+  const lines = [`${indent}kind`, `${indent}name`];
+  if (depth > 1) {
+    lines.push(
+      `${indent}ofType {`,
+      buildTypeRefSelection(depth - 1, indent + "  "),
+      `${indent}}`
+    );
+  }
+  return lines.join("\n");
+}
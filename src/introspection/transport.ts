@@ -0,0 +1,330 @@
+/**
+ * GraphQL request transport
+ *
+ * Sends a single GraphQL operation with retries, GET or POST, Automatic
+ * Persisted Queries and caller-controlled cancellation.
+ */
+
+import { createHash } from "crypto";
+
+/**
+ * Retry policy for transient failures (network errors, timeouts, HTTP 408,
+ * 429 and 5xx). GraphQL errors and other HTTP errors are never retried.
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt (default: 0) */
+  retries?: number;
+
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelay?: number;
+
+  /** Upper bound for any single delay in milliseconds (default: 10000) */
+  maxDelay?: number;
+
+  /** Randomize delays to avoid synchronized retries (default: true) */
+  jitter?: boolean;
+}
+
+export interface TransportOptions {
+  /** GraphQL endpoint URL */
+  endpoint: string;
+
+  /** Optional headers (e.g., for authentication) */
+  headers?: Record<string, string>;
+
+  /** Request timeout in milliseconds, per attempt */
+  timeout?: number;
+
+  /** HTTP method (default: "POST") */
+  method?: "GET" | "POST";
+
+  /**
+   * Use the Automatic Persisted Queries protocol: send the query hash first
+   * and the full query only if the server doesn't know it yet
+   */
+  persistedQueries?: boolean;
+
+  /** Retry policy for transient failures */
+  retry?: RetryOptions;
+
+  /** fetch implementation to use (e.g., a proxy-aware fetch) */
+  fetch?: typeof fetch;
+
+  /** Aborts all pending and future attempts when signalled */
+  signal?: AbortSignal;
+}
+
+/**
+ * Record of a single HTTP request made while executing an operation
+ */
+export interface TransportAttempt {
+  /** Operation name that was sent */
+  operationName: string;
+
+  /** 1-based attempt number for this operation, counting retries */
+  attempt: number;
+
+  method: "GET" | "POST";
+
+  /** Whether only the persisted query hash was sent */
+  hashOnly: boolean;
+
+  /** HTTP status, if a response was received */
+  status?: number;
+
+  /** Time taken in milliseconds */
+  durationMs: number;
+
+  /** Error description, if the attempt failed */
+  error?: string;
+
+  /** Delay before the next attempt in milliseconds, if retried */
+  retryDelayMs?: number;
+}
+
+/**
+ * Outcome of executing an operation
+ */
+export type QueryOutcome =
+  | { ok: true; data: Record<string, unknown> }
+  | { ok: false; error: string; isGraphQLError: boolean };
+
+type GraphQLError = { message: string; extensions?: { code?: string } };
+
+/** Outcome of one HTTP request, before retry handling */
+type RequestOutcome = QueryOutcome & {
+  retryable?: boolean;
+  retryAfterMs?: number;
+  errors?: GraphQLError[];
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Execute a GraphQL operation, recording every HTTP request in `attempts`
+ */
+export async function executeQuery(
+  options: TransportOptions,
+  query: string,
+  operationName: string,
+  attempts: TransportAttempt[] = []
+): Promise<QueryOutcome> {
+  const { retries = 0 } = options.retry ?? {};
+  let attempt = 0;
+
+  for (;;) {
+    attempt++;
+    const outcome = await executeOnce(options, query, operationName, attempt, attempts);
+
+    if (outcome.ok || !outcome.retryable || attempt > retries || options.signal?.aborted) {
+      return outcome.ok
+        ? outcome
+        : { ok: false, error: outcome.error, isGraphQLError: outcome.isGraphQLError };
+    }
+
+    const delay = retryDelay(options.retry ?? {}, attempt, outcome.retryAfterMs);
+    attempts[attempts.length - 1]!.retryDelayMs = delay;
+
+    if (!(await sleep(delay, options.signal))) {
+      return { ok: false, error: "Request aborted", isGraphQLError: false };
+    }
+  }
+}
+
+/**
+ * One attempt, which with persisted queries may take two requests
+ */
+async function executeOnce(
+  options: TransportOptions,
+  query: string,
+  operationName: string,
+  attempt: number,
+  attempts: TransportAttempt[]
+): Promise<RequestOutcome> {
+  if (!options.persistedQueries) {
+    return request(options, { query, operationName }, attempt, attempts);
+  }
+
+  const persistedQuery = {
+    version: 1,
+    sha256Hash: createHash("sha256").update(query).digest("hex"),
+  };
+
+  const hashOnly = await request(
+    options,
+    { operationName, extensions: { persistedQuery } },
+    attempt,
+    attempts
+  );
+  if (hashOnly.ok || !hashOnly.errors) {
+    return hashOnly;
+  }
+
+  const codes = hashOnly.errors.map((e) => e.extensions?.code ?? e.message);
+  if (codes.some((c) => c === "PERSISTED_QUERY_NOT_FOUND" || c === "PersistedQueryNotFound")) {
+    // Register the query under its hash
+    return request(options, { query, operationName, extensions: { persistedQuery } }, attempt, attempts);
+  }
+  if (codes.some((c) => c === "PERSISTED_QUERY_NOT_SUPPORTED" || c === "PersistedQueryNotSupported")) {
+    return request(options, { query, operationName }, attempt, attempts);
+  }
+  return hashOnly;
+}
+
+/**
+ * Send a single HTTP request and unwrap the GraphQL response envelope
+ */
+async function request(
+  options: TransportOptions,
+  body: { query?: string; operationName: string; extensions?: object },
+  attempt: number,
+  attempts: TransportAttempt[]
+): Promise<RequestOutcome> {
+  const { endpoint, headers = {}, timeout = 30000, method = "POST" } = options;
+  const fetchImpl = options.fetch ?? fetch;
+  const record: TransportAttempt = {
+    operationName: body.operationName,
+    attempt,
+    method,
+    hashOnly: body.query === undefined,
+    durationMs: 0,
+  };
+  attempts.push(record);
+
+  const started = Date.now();
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener("abort", onAbort);
+
+  const fail = (outcome: Omit<RequestOutcome & { ok: false }, "ok">): RequestOutcome => {
+    record.error = outcome.error;
+    return { ok: false, ...outcome };
+  };
+
+  try {
+    if (options.signal?.aborted) {
+      return fail({ error: "Request aborted", isGraphQLError: false });
+    }
+
+    const response = await fetchImpl(
+      method === "GET" ? withQueryParams(endpoint, body) : endpoint,
+      {
+        method,
+        headers:
+          method === "GET"
+            ? { Accept: "application/json", ...headers }
+            : { "Content-Type": "application/json", ...headers },
+        ...(method === "POST" ? { body: JSON.stringify(body) } : {}),
+        signal: controller.signal,
+      }
+    );
+    record.status = response.status;
+
+    // GraphQL errors (including APQ misses) may come with a 4xx status;
+    // server errors are treated as HTTP failures so they can be retried
+    const result = await response.json().catch(() => null);
+    const errors: GraphQLError[] | undefined = result?.errors;
+
+    if (errors && errors.length > 0 && !(response.status >= 500)) {
+      const errorMessages = errors.map((e) => e.message).join("; ");
+      return fail({
+        error: `GraphQL errors: ${errorMessages}`,
+        isGraphQLError: true,
+        errors,
+      });
+    }
+
+    if (!response.ok) {
+      return fail({
+        error: `HTTP ${response.status}: ${response.statusText}`,
+        isGraphQLError: false,
+        retryable: RETRYABLE_STATUSES.has(response.status),
+        ...retryAfter(response),
+      });
+    }
+
+    if (result === null) {
+      return fail({ error: "Invalid JSON in response", isGraphQLError: false });
+    }
+
+    return { ok: true, data: result.data ?? {} };
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      return timedOut
+        ? fail({ error: `Request timeout after ${timeout}ms`, isGraphQLError: false, retryable: true })
+        : fail({ error: "Request aborted", isGraphQLError: false });
+    }
+    return fail({
+      error: error instanceof Error ? error.message : "Unknown error during request",
+      isGraphQLError: false,
+      retryable: true,
+    });
+  } finally {
+    clearTimeout(timeoutId);
+    options.signal?.removeEventListener("abort", onAbort);
+    record.durationMs = Date.now() - started;
+  }
+}
+
+/**
+ * Encode an operation as GET query parameters
+ */
+function withQueryParams(
+  endpoint: string,
+  body: { query?: string; operationName: string; extensions?: object }
+): string {
+  const url = new URL(endpoint);
+  if (body.query !== undefined) {
+    url.searchParams.set("query", body.query);
+  }
+  url.searchParams.set("operationName", body.operationName);
+  if (body.extensions) {
+    url.searchParams.set("extensions", JSON.stringify(body.extensions));
+  }
+  return url.toString();
+}
+
+/**
+ * Read a Retry-After header given in seconds
+ */
+function retryAfter(response: Response): { retryAfterMs?: number } {
+  const seconds = Number(response.headers?.get("retry-after"));
+  return Number.isFinite(seconds) && seconds > 0 ? { retryAfterMs: seconds * 1000 } : {};
+}
+
+/**
+ * Exponential backoff: initialDelay * 2^(attempt - 1), capped at maxDelay.
+ * With jitter, a random delay between half and the full value is used.
+ */
+function retryDelay(retry: RetryOptions, attempt: number, retryAfterMs?: number): number {
+  const { initialDelay = 500, maxDelay = 10000, jitter = true } = retry;
+  const base = Math.min(initialDelay * 2 ** (attempt - 1), maxDelay);
+  const delay = jitter ? base / 2 + Math.random() * (base / 2) : base;
+  return Math.round(Math.min(Math.max(delay, retryAfterMs ?? 0), maxDelay));
+}
+
+/**
+ * Wait for `ms` milliseconds; resolves false if aborted first
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
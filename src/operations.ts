@@ -0,0 +1,26 @@
+/**
+ * Operation Documents
+ *
+ * Analyzes client queries, mutations and subscriptions against a schema:
+ * the types and fields they touch, the cache rules and effective policy
+ * that apply, and the mutations that invalidate them.
+ *
+ * @module operations
+ */
+
+export {
+  // Parsing and loading
+  parseOperationDocument,
+  loadOperationDocuments,
+  OPERATION_FILE_EXTENSIONS,
+
+  // Canonical printing
+  printCanonicalOperation,
+  selectOperation,
+
+  // Analysis
+  analyzeOperationDocuments,
+  type OperationAnalysisOptions,
+} from "./operations/index.js";
+
+export type * from "./operations/ast.js";
@@ -0,0 +1,349 @@
+/**
+ * Operation document analysis
+ *
+ * Walks the selection sets of client operations against an analyzed
+ * schema to find every type and field they touch, the cache rules that
+ * apply, the effective response policy and the mutations that
+ * invalidate them.
+ */
+
+import type {
+  AnalyzedSchema,
+  OperationAnalysis,
+  OrionCacheConfig,
+  OrionCacheRule,
+} from "../types.js";
+import type {
+  ExecutableDocumentNode,
+  FragmentDefinitionNode,
+  OperationDefinitionNode,
+  SelectionNode,
+} from "./ast.js";
+import type { DirectiveNode } from "../sdl/ast.js";
+
+import { findFieldRule, resolveResponsePolicy } from "../ai-config-generator/policy.js";
+import { unwrapType } from "../analyzer/type-utils.js";
+import { valueToJS } from "../sdl/values.js";
+import { parseOperationDocument } from "./parser.js";
+
+/**
+ * Options for analyzing operation documents
+ */
+export interface OperationAnalysisOptions {
+  /** Cache config to resolve rules, policies and invalidations against */
+  config?: OrionCacheConfig;
+
+  /** Variable values used to evaluate @include and @skip */
+  variables?: Record<string, unknown>;
+}
+
+/**
+ * Analyze every operation in the given documents. Fragments may be defined
+ * in any of the documents.
+ *
+ * @param documents - Operation document text or parsed documents
+ * @param schema - Analyzed schema to resolve fields against
+ * @param options - Cache config and variable values
+ * @returns One analysis per operation, in document order
+ */
+export function analyzeOperationDocuments(
+  documents: Array<string | ExecutableDocumentNode>,
+  schema: AnalyzedSchema,
+  options: OperationAnalysisOptions = {}
+): OperationAnalysis[] {
+  const parsed = documents.map((doc, i) =>
+    typeof doc === "string" ? parseOperationDocument(doc, `operation document ${i + 1}`) : doc
+  );
+
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  for (const doc of parsed) {
+    for (const def of doc.definitions) {
+      if (def.kind !== "FragmentDefinition") continue;
+      if (fragments.has(def.name)) {
+        throw new Error(`Fragment "${def.name}" is defined more than once`);
+      }
+      fragments.set(def.name, def);
+    }
+  }
+
+  const analyses: OperationAnalysis[] = [];
+  for (const doc of parsed) {
+    for (const def of doc.definitions) {
+      if (def.kind === "OperationDefinition") {
+        analyses.push(analyzeOperation(def, doc.source, schema, fragments, options));
+      }
+    }
+  }
+  return analyses;
+}
+
+// =============================================================================
+// SELECTION WALKING
+// =============================================================================
+
+interface WalkContext {
+  schema: AnalyzedSchema;
+  fragments: Map<string, FragmentDefinitionNode>;
+  variables: Record<string, unknown>;
+  types: Set<string>;
+  fields: Set<string>;
+  warnings: Set<string>;
+
+  /** Fragments being expanded, to cut spread cycles */
+  expanding: Set<string>;
+}
+
+function analyzeOperation(
+  operation: OperationDefinitionNode,
+  source: string,
+  schema: AnalyzedSchema,
+  fragments: Map<string, FragmentDefinitionNode>,
+  options: OperationAnalysisOptions
+): OperationAnalysis {
+  const variables: Record<string, unknown> = {};
+  for (const def of operation.variableDefinitions) {
+    if (def.defaultValue) {
+      variables[def.name] = valueToJS(def.defaultValue);
+    }
+  }
+  Object.assign(variables, options.variables);
+
+  const ctx: WalkContext = {
+    schema,
+    fragments,
+    variables,
+    types: new Set(),
+    fields: new Set(),
+    warnings: new Set(),
+    expanding: new Set(),
+  };
+
+  const rootType = schema.rootTypes[operation.operation];
+  if (rootType) {
+    walkSelections(operation.selectionSet, rootType, [rootType], ctx);
+  } else {
+    ctx.warnings.add(`Schema has no ${operation.operation} root type`);
+  }
+
+  const rootTypes = new Set(
+    Object.values(schema.rootTypes).filter((name): name is string => name !== null)
+  );
+  const types = [...ctx.types].filter((t) => !rootTypes.has(t)).sort();
+  const fields = [...ctx.fields].sort();
+
+  const { config } = options;
+  const isQuery = operation.operation === "query";
+  const selectors = config ? policySelectors(config, schema, fields, rootTypes) : [];
+
+  return {
+    name: operation.name,
+    operation: operation.operation,
+    source,
+    types,
+    fields,
+    rules: config ? matchedRules(config, selectors) : [],
+    policy: config && isQuery ? resolveResponsePolicy(config, selectors) : null,
+    invalidatedBy: isQuery ? findInvalidatingMutations(schema, types, config) : [],
+    warnings: [...ctx.warnings],
+  };
+}
+
+/**
+ * Record the fields of a selection set.
+ *
+ * @param parentType - Type the selections are made on
+ * @param possibleTypes - Concrete types the parent can be at this point
+ */
+function walkSelections(
+  selections: SelectionNode[],
+  parentType: string,
+  possibleTypes: string[],
+  ctx: WalkContext
+): void {
+  ctx.types.add(parentType);
+  for (const type of possibleTypes) {
+    ctx.types.add(type);
+  }
+
+  for (const selection of selections) {
+    if (!isIncluded(selection.directives, ctx.variables)) continue;
+
+    switch (selection.kind) {
+      case "Field":
+        walkField(selection.name, selection.selectionSet, parentType, possibleTypes, ctx);
+        break;
+
+      case "InlineFragment": {
+        const condition = selection.typeCondition ?? parentType;
+        walkFragment(condition, selection.selectionSet, parentType, possibleTypes, ctx);
+        break;
+      }
+
+      case "FragmentSpread": {
+        const fragment = ctx.fragments.get(selection.name);
+        if (!fragment) {
+          ctx.warnings.add(`Unknown fragment "${selection.name}"`);
+          break;
+        }
+        if (ctx.expanding.has(fragment.name)) {
+          ctx.warnings.add(`Fragment cycle through "${fragment.name}"`);
+          break;
+        }
+        if (!isIncluded(fragment.directives, ctx.variables)) break;
+
+        ctx.expanding.add(fragment.name);
+        walkFragment(fragment.typeCondition, fragment.selectionSet, parentType, possibleTypes, ctx);
+        ctx.expanding.delete(fragment.name);
+        break;
+      }
+    }
+  }
+}
+
+function walkField(
+  fieldName: string,
+  selectionSet: SelectionNode[] | null,
+  parentType: string,
+  possibleTypes: string[],
+  ctx: WalkContext
+): void {
+  if (fieldName.startsWith("__")) return;
+
+  const field = ctx.schema.typeMap.get(parentType)?.fields?.find((f) => f.name === fieldName);
+  if (!field) {
+    ctx.warnings.add(`Unknown field "${fieldName}" on type "${parentType}"`);
+    return;
+  }
+
+  ctx.fields.add(`${parentType}.${fieldName}`);
+  for (const type of possibleTypes) {
+    if (type !== parentType) {
+      ctx.fields.add(`${type}.${fieldName}`);
+    }
+  }
+
+  if (!selectionSet) return;
+
+  const { typeName } = unwrapType(field.type);
+  walkSelections(selectionSet, typeName, concreteTypes(ctx.schema, typeName), ctx);
+}
+
+/**
+ * Walk a fragment's selections, narrowing the possible types to those
+ * matching its type condition
+ */
+function walkFragment(
+  typeCondition: string,
+  selectionSet: SelectionNode[],
+  parentType: string,
+  possibleTypes: string[],
+  ctx: WalkContext
+): void {
+  if (!ctx.schema.typeMap.has(typeCondition)) {
+    ctx.warnings.add(`Unknown type "${typeCondition}" in fragment type condition`);
+    return;
+  }
+
+  const matching = new Set(concreteTypes(ctx.schema, typeCondition));
+  const narrowed = possibleTypes.filter((t) => matching.has(t));
+  if (narrowed.length === 0) {
+    ctx.warnings.add(`Fragment on "${typeCondition}" can never match "${parentType}"`);
+    return;
+  }
+
+  walkSelections(selectionSet, typeCondition, narrowed, ctx);
+}
+
+/**
+ * Evaluate @skip and @include. Conditions that can't be resolved (unknown
+ * variables) keep the selection, since it may be requested.
+ */
+function isIncluded(directives: DirectiveNode[], variables: Record<string, unknown>): boolean {
+  for (const directive of directives) {
+    if (directive.name !== "skip" && directive.name !== "include") continue;
+
+    const arg = directive.arguments.find((a) => a.name === "if");
+    if (!arg) continue;
+
+    const condition = arg.value.kind === "Variable" ? variables[arg.value.name] : valueToJS(arg.value);
+    if (typeof condition !== "boolean") continue;
+
+    if (directive.name === "skip" ? condition : !condition) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// =============================================================================
+// SCHEMA LOOKUPS
+// =============================================================================
+
+/**
+ * Concrete object types a type can resolve to: the members of an interface
+ * or union, or the type itself
+ */
+function concreteTypes(schema: AnalyzedSchema, typeName: string): string[] {
+  const abstract = schema.abstractTypes.find((a) => a.name === typeName);
+  return abstract ? abstract.possibleTypes : [typeName];
+}
+
+// =============================================================================
+// POLICY AND INVALIDATION
+// =============================================================================
+
+/**
+ * Coordinates that decide the response policy. Root fields only count when
+ * a rule selects them explicitly, since root types carry no type rules.
+ * The same goes for fields on interfaces and unions: type rules don't apply
+ * to them, and their concrete types' coordinates are recorded alongside.
+ */
+function policySelectors(
+  config: OrionCacheConfig,
+  schema: AnalyzedSchema,
+  fields: string[],
+  rootTypes: Set<string>
+): string[] {
+  const abstractTypes = new Set(schema.abstractTypes.map((a) => a.name));
+  return fields.filter((selector) => {
+    const type = selector.slice(0, selector.indexOf("."));
+    return (
+      (!rootTypes.has(type) && !abstractTypes.has(type)) ||
+      config.rules.some((r) => r.fields?.includes(selector))
+    );
+  });
+}
+
+function matchedRules(config: OrionCacheConfig, selectors: string[]): OrionCacheRule[] {
+  const matched = new Set<OrionCacheRule>();
+  for (const selector of selectors) {
+    const dot = selector.indexOf(".");
+    const rule = findFieldRule(config, selector.slice(0, dot), selector.slice(dot + 1));
+    if (rule) matched.add(rule);
+  }
+  return config.rules.filter((r) => matched.has(r));
+}
+
+/**
+ * Mutations whose invalidation patterns (from the config, else the
+ * schema's inferred affected types) cover a selected type
+ */
+function findInvalidatingMutations(
+  schema: AnalyzedSchema,
+  types: string[],
+  config: OrionCacheConfig | undefined
+): string[] {
+  const selected = new Set(types);
+
+  if (config) {
+    return Object.entries(config.invalidations)
+      .filter(([, patterns]) => patterns.some((p) => selected.has(p.split(":")[0]!)))
+      .map(([mutation]) => mutation)
+      .sort();
+  }
+
+  return schema.mutations
+    .filter((m) => m.affectedTypes.some((t) => selected.has(t)))
+    .map((m) => m.name)
+    .sort();
+}
@@ -0,0 +1,69 @@
+/**
+ * Executable document syntax tree
+ *
+ * Node types for client operation documents (queries, mutations,
+ * subscriptions and fragments). Values, types and directives reuse the SDL
+ * node types.
+ */
+
+import type { ExecutableOperationKind } from "../types.js";
+import type { ArgumentNode, DirectiveNode, TypeNode, ValueNode } from "../sdl/ast.js";
+
+export interface FieldNode {
+  kind: "Field";
+  alias: string | null;
+  name: string;
+  arguments: ArgumentNode[];
+  directives: DirectiveNode[];
+  selectionSet: SelectionNode[] | null;
+}
+
+export interface FragmentSpreadNode {
+  kind: "FragmentSpread";
+  name: string;
+  directives: DirectiveNode[];
+}
+
+export interface InlineFragmentNode {
+  kind: "InlineFragment";
+  typeCondition: string | null;
+  directives: DirectiveNode[];
+  selectionSet: SelectionNode[];
+}
+
+export type SelectionNode = FieldNode | FragmentSpreadNode | InlineFragmentNode;
+
+export interface VariableDefinitionNode {
+  name: string;
+  type: TypeNode;
+  defaultValue: ValueNode | null;
+  directives: DirectiveNode[];
+}
+
+export interface OperationDefinitionNode {
+  kind: "OperationDefinition";
+  operation: ExecutableOperationKind;
+
+  /** Null for anonymous operations, including the `{ ... }` shorthand */
+  name: string | null;
+
+  variableDefinitions: VariableDefinitionNode[];
+  directives: DirectiveNode[];
+  selectionSet: SelectionNode[];
+}
+
+export interface FragmentDefinitionNode {
+  kind: "FragmentDefinition";
+  name: string;
+  typeCondition: string;
+  directives: DirectiveNode[];
+  selectionSet: SelectionNode[];
+}
+
+export type ExecutableDefinitionNode = OperationDefinitionNode | FragmentDefinitionNode;
+
+export interface ExecutableDocumentNode {
+  /** Name of the source the document was parsed from */
+  source: string;
+  definitions: ExecutableDefinitionNode[];
+}
@@ -0,0 +1,12 @@
+/**
+ * Operation Documents
+ *
+ * Parses client operation documents (queries, mutations, subscriptions and
+ * fragments) and analyzes them against an analyzed schema and cache config.
+ */
+
+export { parseOperationDocument } from "./parser.js";
+export { printCanonicalOperation, selectOperation } from "./printer.js";
+export { analyzeOperationDocuments, type OperationAnalysisOptions } from "./analyzer.js";
+export { loadOperationDocuments, OPERATION_FILE_EXTENSIONS } from "./loader.js";
+export type * from "./ast.js";
@@ -0,0 +1,34 @@
+/**
+ * Loading operation documents from the filesystem
+ */
+
+import { readFile } from "fs/promises";
+
+import type { ExecutableDocumentNode } from "./ast.js";
+import { collectFiles } from "../sdl/loader.js";
+import { parseOperationDocument } from "./parser.js";
+
+/** File extensions picked up when a directory is given */
+export const OPERATION_FILE_EXTENSIONS = [".graphql", ".gql"];
+
+/**
+ * Load and parse operation documents. Directories are searched recursively
+ * for files with a known extension, in sorted order.
+ */
+export async function loadOperationDocuments(paths: string[]): Promise<ExecutableDocumentNode[]> {
+  const files: string[] = [];
+  for (const p of paths) {
+    files.push(...(await collectFiles(p, OPERATION_FILE_EXTENSIONS)));
+  }
+
+  if (files.length === 0) {
+    throw new Error(`No operation documents found in: ${paths.join(", ")}`);
+  }
+
+  const documents: ExecutableDocumentNode[] = [];
+  for (const file of files) {
+    const content = await readFile(file, "utf-8");
+    documents.push(parseOperationDocument(content, file));
+  }
+  return documents;
+}
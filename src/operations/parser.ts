@@ -0,0 +1,183 @@
+/**
+ * Operation document parser
+ *
+ * Recursive-descent parser for executable GraphQL documents, built on the
+ * SDL parser's cursor and shared grammar helpers.
+ */
+
+import type { ExecutableOperationKind } from "../types.js";
+import type {
+  ExecutableDefinitionNode,
+  ExecutableDocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  OperationDefinitionNode,
+  SelectionNode,
+  VariableDefinitionNode,
+} from "./ast.js";
+
+import { syntaxError } from "../sdl/lexer.js";
+import {
+  advance,
+  createCursor,
+  expect,
+  expectKeyword,
+  optionalMany,
+  parseArgument,
+  parseDirectives,
+  parseName,
+  parseTypeReference,
+  parseValue,
+  peek,
+  skip,
+  unexpected,
+  type Cursor,
+} from "../sdl/parser.js";
+
+const OPERATION_KINDS = new Set(["query", "mutation", "subscription"]);
+
+/**
+ * Parse an executable GraphQL document (operations and fragments).
+ *
+ * @param body - Document text
+ * @param sourceName - Name used in error messages (e.g. a file path)
+ * @returns The parsed document
+ */
+export function parseOperationDocument(
+  body: string,
+  sourceName = "GraphQL operation"
+): ExecutableDocumentNode {
+  const cursor = createCursor({ name: sourceName, body });
+  const definitions: ExecutableDefinitionNode[] = [];
+
+  while (peek(cursor).kind !== "<EOF>") {
+    definitions.push(parseExecutableDefinition(cursor));
+  }
+
+  return { source: sourceName, definitions };
+}
+
+function parseExecutableDefinition(cursor: Cursor): ExecutableDefinitionNode {
+  const token = peek(cursor);
+
+  if (token.kind === "{") {
+    return {
+      kind: "OperationDefinition",
+      operation: "query",
+      name: null,
+      variableDefinitions: [],
+      directives: [],
+      selectionSet: parseSelectionSet(cursor),
+    };
+  }
+
+  if (token.kind === "Name" && OPERATION_KINDS.has(token.value)) {
+    return parseOperationDefinition(cursor);
+  }
+  if (token.kind === "Name" && token.value === "fragment") {
+    return parseFragmentDefinition(cursor);
+  }
+  if (token.kind === "Name") {
+    throw syntaxError(
+      cursor.source,
+      token.start,
+      `Type system definition "${token.value}" is not allowed in an operation document`
+    );
+  }
+
+  throw unexpected(cursor, token);
+}
+
+function parseOperationDefinition(cursor: Cursor): OperationDefinitionNode {
+  const operation = advance(cursor).value as ExecutableOperationKind;
+  const name = peek(cursor).kind === "Name" ? parseName(cursor) : null;
+  const variableDefinitions = optionalMany(cursor, "(", parseVariableDefinition, ")");
+  const directives = parseDirectives(cursor, false);
+
+  return {
+    kind: "OperationDefinition",
+    operation,
+    name,
+    variableDefinitions,
+    directives,
+    selectionSet: parseSelectionSet(cursor),
+  };
+}
+
+function parseFragmentDefinition(cursor: Cursor): FragmentDefinitionNode {
+  expectKeyword(cursor, "fragment");
+  const token = peek(cursor);
+  const name = parseName(cursor);
+  if (name === "on") {
+    throw syntaxError(cursor.source, token.start, `Fragment cannot be named "on"`);
+  }
+  expectKeyword(cursor, "on");
+  const typeCondition = parseName(cursor);
+  const directives = parseDirectives(cursor, false);
+
+  return {
+    kind: "FragmentDefinition",
+    name,
+    typeCondition,
+    directives,
+    selectionSet: parseSelectionSet(cursor),
+  };
+}
+
+function parseVariableDefinition(cursor: Cursor): VariableDefinitionNode {
+  expect(cursor, "$");
+  const name = parseName(cursor);
+  expect(cursor, ":");
+  const type = parseTypeReference(cursor);
+  const defaultValue = skip(cursor, "=") ? parseValue(cursor, true) : null;
+  const directives = parseDirectives(cursor, true);
+
+  return { name, type, defaultValue, directives };
+}
+
+function parseSelectionSet(cursor: Cursor): SelectionNode[] {
+  expect(cursor, "{");
+  const selections: SelectionNode[] = [];
+  do {
+    selections.push(parseSelection(cursor));
+  } while (!skip(cursor, "}"));
+  return selections;
+}
+
+function parseSelection(cursor: Cursor): SelectionNode {
+  if (!skip(cursor, "...")) {
+    return parseField(cursor);
+  }
+
+  const token = peek(cursor);
+  if (token.kind === "Name" && token.value !== "on") {
+    return { kind: "FragmentSpread", name: parseName(cursor), directives: parseDirectives(cursor, false) };
+  }
+
+  let typeCondition: string | null = null;
+  if (token.kind === "Name") {
+    advance(cursor);
+    typeCondition = parseName(cursor);
+  }
+  return {
+    kind: "InlineFragment",
+    typeCondition,
+    directives: parseDirectives(cursor, false),
+    selectionSet: parseSelectionSet(cursor),
+  };
+}
+
+function parseField(cursor: Cursor): FieldNode {
+  let alias: string | null = null;
+  let name = parseName(cursor);
+  if (skip(cursor, ":")) {
+    alias = name;
+    name = parseName(cursor);
+  }
+
+  const args = optionalMany(cursor, "(", (c) => parseArgument(c, false), ")");
+  const directives = parseDirectives(cursor, false);
+  const selectionSet = peek(cursor).kind === "{" ? parseSelectionSet(cursor) : null;
+
+  return { kind: "Field", alias, name, arguments: args, directives, selectionSet };
+}
@@ -0,0 +1,170 @@
+/**
+ * Canonical operation printing
+ *
+ * Prints an operation and the fragments it uses in a compact, normalized
+ * form, so documents that differ only in whitespace, comments, argument
+ * order or unused fragments print the same.
+ */
+
+import type { ArgumentNode, DirectiveNode, TypeNode } from "../sdl/ast.js";
+import type {
+  ExecutableDocumentNode,
+  FragmentDefinitionNode,
+  OperationDefinitionNode,
+  SelectionNode,
+} from "./ast.js";
+
+import { printValue } from "../sdl/values.js";
+
+/**
+ * Pick the operation to execute: the one named `operationName`, or the only
+ * operation in the document
+ */
+export function selectOperation(
+  document: ExecutableDocumentNode,
+  operationName?: string | null
+): OperationDefinitionNode {
+  const operations = document.definitions.filter(
+    (def): def is OperationDefinitionNode => def.kind === "OperationDefinition"
+  );
+
+  if (operationName) {
+    const named = operations.find((op) => op.name === operationName);
+    if (!named) {
+      throw new Error(`Unknown operation "${operationName}" in ${document.source}`);
+    }
+    return named;
+  }
+  if (operations.length !== 1) {
+    throw new Error(
+      `${document.source} has ${operations.length} operations; an operation name is required`
+    );
+  }
+  return operations[0]!;
+}
+
+/**
+ * Print an operation and the fragments it spreads (transitively), with
+ * fragments, variable definitions and arguments sorted by name.
+ * Anonymous `{ ... }` shorthand prints as `query{...}`.
+ *
+ * @example
+ * printCanonicalOperation(parseOperationDocument("query P($id: ID!) { product(id: $id) { id } }"))
+ * // "query P($id:ID!){product(id:$id){id}}"
+ */
+export function printCanonicalOperation(
+  document: ExecutableDocumentNode,
+  operationName?: string | null
+): string {
+  const operation = selectOperation(document, operationName);
+
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  for (const def of document.definitions) {
+    if (def.kind === "FragmentDefinition") fragments.set(def.name, def);
+  }
+
+  const used = new Set<string>();
+  collectSpreads(operation.selectionSet, fragments, used);
+
+  const parts = [printOperationDefinition(operation)];
+  for (const name of [...used].sort()) {
+    const fragment = fragments.get(name);
+    if (!fragment) {
+      throw new Error(`Unknown fragment "${name}" in ${document.source}`);
+    }
+    parts.push(printFragmentDefinition(fragment));
+  }
+  return parts.join(" ");
+}
+
+function collectSpreads(
+  selections: SelectionNode[],
+  fragments: Map<string, FragmentDefinitionNode>,
+  used: Set<string>
+): void {
+  for (const selection of selections) {
+    if (selection.kind === "FragmentSpread") {
+      if (used.has(selection.name)) continue;
+      used.add(selection.name);
+      const fragment = fragments.get(selection.name);
+      if (fragment) collectSpreads(fragment.selectionSet, fragments, used);
+    } else if (selection.selectionSet) {
+      collectSpreads(selection.selectionSet, fragments, used);
+    }
+  }
+}
+
+// =============================================================================
+// PRINTING
+// =============================================================================
+
+function printOperationDefinition(operation: OperationDefinitionNode): string {
+  const name = operation.name ? ` ${operation.name}` : "";
+  const variables =
+    operation.variableDefinitions.length > 0
+      ? `(${[...operation.variableDefinitions]
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(
+            (v) =>
+              `$${v.name}:${printType(v.type)}` +
+              (v.defaultValue ? `=${printValue(v.defaultValue)}` : "") +
+              printDirectives(v.directives)
+          )
+          .join(",")})`
+      : "";
+  return (
+    `${operation.operation}${name}${variables}${printDirectives(operation.directives)}` +
+    printSelectionSet(operation.selectionSet)
+  );
+}
+
+function printFragmentDefinition(fragment: FragmentDefinitionNode): string {
+  return (
+    `fragment ${fragment.name} on ${fragment.typeCondition}${printDirectives(fragment.directives)}` +
+    printSelectionSet(fragment.selectionSet)
+  );
+}
+
+function printSelectionSet(selections: SelectionNode[]): string {
+  return `{${selections.map(printSelection).join(" ")}}`;
+}
+
+function printSelection(selection: SelectionNode): string {
+  switch (selection.kind) {
+    case "Field": {
+      const alias = selection.alias ? `${selection.alias}:` : "";
+      const selectionSet = selection.selectionSet ? printSelectionSet(selection.selectionSet) : "";
+      return (
+        `${alias}${selection.name}${printArguments(selection.arguments)}` +
+        `${printDirectives(selection.directives)}${selectionSet}`
+      );
+    }
+    case "FragmentSpread":
+      return `...${selection.name}${printDirectives(selection.directives)}`;
+    case "InlineFragment": {
+      const condition = selection.typeCondition ? ` on ${selection.typeCondition}` : "";
+      return `...${condition}${printDirectives(selection.directives)}${printSelectionSet(selection.selectionSet)}`;
+    }
+  }
+}
+
+function printArguments(args: ArgumentNode[]): string {
+  if (args.length === 0) return "";
+  const sorted = [...args].sort((a, b) => a.name.localeCompare(b.name));
+  return `(${sorted.map((arg) => `${arg.name}:${printValue(arg.value)}`).join(",")})`;
+}
+
+function printDirectives(directives: DirectiveNode[]): string {
+  return directives.map((d) => `@${d.name}${printArguments(d.arguments)}`).join("");
+}
+
+function printType(type: TypeNode): string {
+  switch (type.kind) {
+    case "NamedType":
+      return type.name;
+    case "ListType":
+      return `[${printType(type.type)}]`;
+    case "NonNullType":
+      return `${printType(type.type)}!`;
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Schema Diff
+ *
+ * Compares two versions of a GraphQL schema and classifies each change as
+ * breaking, dangerous or safe, flagging changes that affect the cache config.
+ *
+ * @module schema-diff
+ */
+
+export { diffSchemas, type DiffSchemasOptions } from "./schema-diff/index.js";
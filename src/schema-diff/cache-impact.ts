@@ -0,0 +1,88 @@
+/**
+ * Cache-relevant consequences of a schema change
+ */
+
+import type {
+  AnalyzedSchema,
+  CacheImpact,
+  OrionCacheConfig,
+} from "../types.js";
+
+import { findTypeRule } from "../ai-config-generator/policy.js";
+
+/**
+ * Find changes between two analyses that require a cache config review
+ */
+export function findCacheImpacts(
+  oldSchema: AnalyzedSchema,
+  newSchema: AnalyzedSchema,
+  config?: OrionCacheConfig
+): CacheImpact[] {
+  const impacts: CacheImpact[] = [];
+  const oldEntities = new Map(oldSchema.entities.map((e) => [e.name, e]));
+
+  for (const entity of newSchema.entities) {
+    if (entity.characteristics.isRootType) continue;
+
+    const oldEntity = oldEntities.get(entity.name);
+
+    // New entities the current config has no rule for fall back to defaults
+    if (config && entity.hasId && !oldEntity?.hasId && !isCoveredByRule(entity.name, config)) {
+      impacts.push({
+        type: "UNCOVERED_ENTITY",
+        severity: "dangerous",
+        target: entity.name,
+        message: `New entity "${entity.name}" is not covered by any cache rule and will use the default TTL`,
+      });
+    }
+
+    if (!oldEntity) continue;
+
+    if (oldEntity.hasId && !entity.hasId) {
+      impacts.push({
+        type: "ENTITY_ID_REMOVED",
+        severity: "breaking",
+        target: entity.name,
+        message: `"${entity.name}" lost its ID field; "${entity.name}:<id>" invalidation keys can no longer be built`,
+      });
+    }
+
+    const oldFieldNames = new Set(oldEntity.fields.map((f) => f.name));
+    const sensitiveFields = new Set(
+      entity.characteristics.scores.hasSensitiveFields.evidence.map((e) => e.field)
+    );
+    for (const field of entity.fields) {
+      if (!oldFieldNames.has(field.name) && sensitiveFields.has(field.name)) {
+        impacts.push({
+          type: "SENSITIVE_FIELD_ADDED",
+          severity: "dangerous",
+          target: entity.name,
+          message: `"${entity.name}" gained sensitive-looking field "${field.name}"; check that its rule is private or passthrough`,
+        });
+      }
+    }
+  }
+
+  const oldMutations = new Map(oldSchema.mutations.map((m) => [m.name, m]));
+  for (const mutation of newSchema.mutations) {
+    const oldMutation = oldMutations.get(mutation.name);
+    if (!oldMutation) continue;
+
+    const before = [...oldMutation.affectedTypes].sort();
+    const after = [...mutation.affectedTypes].sort();
+    if (before.join(",") !== after.join(",")) {
+      impacts.push({
+        type: "MUTATION_AFFECTED_TYPES_CHANGED",
+        severity: "dangerous",
+        target: mutation.name,
+        message: `Mutation "${mutation.name}" now affects [${after.join(", ")}] (was [${before.join(", ")}]); update its invalidations`,
+      });
+    }
+  }
+
+  return impacts;
+}
+
+function isCoveredByRule(typeName: string, config: OrionCacheConfig): boolean {
+  return findTypeRule(config, typeName) !== undefined;
+}
@@ -0,0 +1,87 @@
+/**
+ * Schema Diff
+ *
+ * Compares two versions of a schema, classifies each change by its impact on
+ * clients and flags changes that require a cache config review.
+ */
+
+import type {
+  AnalyzedSchema,
+  IntrospectionSchema,
+  OrionCacheConfig,
+  SchemaChange,
+  SchemaDiff,
+} from "../types.js";
+
+import { analyzeSchema } from "../analyzer/index.js";
+import { diffTypes } from "./type-changes.js";
+import { findCacheImpacts } from "./cache-impact.js";
+
+/**
+ * Options for diffing schemas
+ */
+export interface DiffSchemasOptions {
+  /** Current cache config, used to detect new entities no rule covers */
+  config?: OrionCacheConfig;
+}
+
+/**
+ * Diffs two schemas.
+ *
+ * Either side may be a raw introspection schema or an analysis of one.
+ *
+ * @param oldSchema - The previous schema
+ * @param newSchema - The updated schema
+ * @param options - Diff options
+ * @returns Structural changes and cache impacts
+ */
+export function diffSchemas(
+  oldSchema: IntrospectionSchema | AnalyzedSchema,
+  newSchema: IntrospectionSchema | AnalyzedSchema,
+  options: DiffSchemasOptions = {}
+): SchemaDiff {
+  const oldAnalysis = toAnalysis(oldSchema);
+  const newAnalysis = toAnalysis(newSchema);
+
+  const changes = diffTypes(oldAnalysis.typeMap, newAnalysis.typeMap);
+  labelMutationChanges(changes, oldAnalysis.rootTypes.mutation, newAnalysis.rootTypes.mutation);
+
+  const cacheImpacts = findCacheImpacts(oldAnalysis, newAnalysis, options.config);
+
+  const summary = { breaking: 0, dangerous: 0, safe: 0 };
+  for (const change of changes) {
+    summary[change.severity]++;
+  }
+
+  return {
+    changes,
+    cacheImpacts,
+    hasBreakingChanges: summary.breaking > 0,
+    summary,
+  };
+}
+
+function toAnalysis(schema: IntrospectionSchema | AnalyzedSchema): AnalyzedSchema {
+  return "typeMap" in schema ? schema : analyzeSchema(schema);
+}
+
+/**
+ * Report fields added to or removed from the mutation root as mutations
+ */
+function labelMutationChanges(
+  changes: SchemaChange[],
+  oldRoot: string | null,
+  newRoot: string | null
+): void {
+  for (const change of changes) {
+    const [typeName, fieldName] = change.path.split(".");
+
+    if (change.type === "FIELD_REMOVED" && typeName === oldRoot) {
+      change.type = "MUTATION_REMOVED";
+      change.message = `Mutation "${fieldName}" was removed`;
+    } else if (change.type === "FIELD_ADDED" && typeName === newRoot) {
+      change.type = "MUTATION_ADDED";
+      change.message = `Mutation "${fieldName}" was added`;
+    }
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Structural changes between two sets of schema types
+ */
+
+import type {
+  ChangeSeverity,
+  IntrospectionField,
+  IntrospectionInputValue,
+  IntrospectionType,
+  IntrospectionTypeRef,
+  SchemaChange,
+  SchemaChangeType,
+} from "../types.js";
+
+import { BUILT_IN_TYPES } from "../analyzer/constants.js";
+import { printTypeRef } from "../sdl/printer.js";
+
+/**
+ * Diff two type maps, returning every added, removed or changed type member
+ */
+export function diffTypes(
+  oldTypes: Map<string, IntrospectionType>,
+  newTypes: Map<string, IntrospectionType>
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  for (const [name, oldType] of oldTypes) {
+    if (isIgnored(name)) continue;
+
+    const newType = newTypes.get(name);
+    if (!newType) {
+      changes.push(change("TYPE_REMOVED", "breaking", name, `Type "${name}" was removed`));
+      continue;
+    }
+    if (oldType.kind !== newType.kind) {
+      changes.push(change("TYPE_KIND_CHANGED", "breaking", name, `"${name}" changed from ${oldType.kind} to ${newType.kind}`));
+      continue;
+    }
+
+    changes.push(...diffType(oldType, newType));
+  }
+
+  for (const name of newTypes.keys()) {
+    if (!isIgnored(name) && !oldTypes.has(name)) {
+      changes.push(change("TYPE_ADDED", "safe", name, `Type "${name}" was added`));
+    }
+  }
+
+  return changes;
+}
+
+function isIgnored(name: string): boolean {
+  return BUILT_IN_TYPES.has(name) || name.startsWith("__");
+}
+
+function diffType(oldType: IntrospectionType, newType: IntrospectionType): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const typeName = oldType.name;
+
+  if (oldType.fields || newType.fields) {
+    changes.push(...diffFields(typeName, oldType.fields ?? [], newType.fields ?? []));
+  }
+
+  if (oldType.inputFields || newType.inputFields) {
+    changes.push(
+      ...diffInputValues(
+        typeName,
+        oldType.inputFields ?? [],
+        newType.inputFields ?? [],
+        "INPUT_FIELD",
+        "Input field"
+      )
+    );
+  }
+
+  const oldValues = names(oldType.enumValues);
+  const newValues = names(newType.enumValues);
+  for (const value of oldValues) {
+    if (!newValues.has(value)) {
+      changes.push(change("ENUM_VALUE_REMOVED", "breaking", `${typeName}.${value}`, `Enum value "${value}" was removed from "${typeName}"`));
+    }
+  }
+  for (const value of newValues) {
+    if (!oldValues.has(value)) {
+      // Clients switching exhaustively over the enum may not handle it
+      changes.push(change("ENUM_VALUE_ADDED", "dangerous", `${typeName}.${value}`, `Enum value "${value}" was added to "${typeName}"`));
+    }
+  }
+
+  if (oldType.kind === "UNION") {
+    const oldMembers = names(oldType.possibleTypes);
+    const newMembers = names(newType.possibleTypes);
+    for (const member of oldMembers) {
+      if (!newMembers.has(member)) {
+        changes.push(change("UNION_MEMBER_REMOVED", "breaking", typeName, `"${member}" was removed from union "${typeName}"`));
+      }
+    }
+    for (const member of newMembers) {
+      if (!oldMembers.has(member)) {
+        changes.push(change("UNION_MEMBER_ADDED", "dangerous", typeName, `"${member}" was added to union "${typeName}"`));
+      }
+    }
+  }
+
+  const oldInterfaces = names(oldType.interfaces);
+  const newInterfaces = names(newType.interfaces);
+  for (const iface of oldInterfaces) {
+    if (!newInterfaces.has(iface)) {
+      changes.push(change("INTERFACE_REMOVED", "breaking", typeName, `"${typeName}" no longer implements "${iface}"`));
+    }
+  }
+  for (const iface of newInterfaces) {
+    if (!oldInterfaces.has(iface)) {
+      changes.push(change("INTERFACE_ADDED", "dangerous", typeName, `"${typeName}" now implements "${iface}"`));
+    }
+  }
+
+  return changes;
+}
+
+function diffFields(
+  typeName: string,
+  oldFields: IntrospectionField[],
+  newFields: IntrospectionField[]
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const newByName = new Map(newFields.map((f) => [f.name, f]));
+
+  for (const oldField of oldFields) {
+    const path = `${typeName}.${oldField.name}`;
+    const newField = newByName.get(oldField.name);
+
+    if (!newField) {
+      changes.push(change("FIELD_REMOVED", "breaking", path, `Field "${path}" was removed`));
+      continue;
+    }
+
+    if (printTypeRef(oldField.type) !== printTypeRef(newField.type)) {
+      const safe = isSafeOutputChange(oldField.type, newField.type);
+      changes.push(
+        change(
+          "FIELD_TYPE_CHANGED",
+          safe ? "safe" : "breaking",
+          path,
+          `Field "${path}" changed type from ${printTypeRef(oldField.type)} to ${printTypeRef(newField.type)}`
+        )
+      );
+    }
+
+    if (!oldField.isDeprecated && newField.isDeprecated) {
+      changes.push(change("FIELD_DEPRECATED", "safe", path, `Field "${path}" was deprecated`));
+    } else if (oldField.isDeprecated && !newField.isDeprecated) {
+      changes.push(change("FIELD_UNDEPRECATED", "safe", path, `Field "${path}" is no longer deprecated`));
+    }
+
+    changes.push(...diffInputValues(path, oldField.args, newField.args, "ARGUMENT", "Argument"));
+  }
+
+  const oldNames = new Set(oldFields.map((f) => f.name));
+  for (const newField of newFields) {
+    if (!oldNames.has(newField.name)) {
+      const path = `${typeName}.${newField.name}`;
+      changes.push(change("FIELD_ADDED", "safe", path, `Field "${path}" was added`));
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Diff arguments of a field or fields of an input object
+ */
+function diffInputValues(
+  parentPath: string,
+  oldValues: IntrospectionInputValue[],
+  newValues: IntrospectionInputValue[],
+  prefix: "ARGUMENT" | "INPUT_FIELD",
+  label: string
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const newByName = new Map(newValues.map((v) => [v.name, v]));
+  const pathOf = (name: string) =>
+    prefix === "ARGUMENT" ? `${parentPath}(${name}:)` : `${parentPath}.${name}`;
+
+  for (const oldValue of oldValues) {
+    const path = pathOf(oldValue.name);
+    const newValue = newByName.get(oldValue.name);
+
+    if (!newValue) {
+      changes.push(change(`${prefix}_REMOVED`, "breaking", path, `${label} "${path}" was removed`));
+      continue;
+    }
+
+    if (printTypeRef(oldValue.type) !== printTypeRef(newValue.type)) {
+      const safe = isSafeInputChange(oldValue.type, newValue.type);
+      changes.push(
+        change(
+          `${prefix}_TYPE_CHANGED`,
+          safe ? "safe" : "breaking",
+          path,
+          `${label} "${path}" changed type from ${printTypeRef(oldValue.type)} to ${printTypeRef(newValue.type)}`
+        )
+      );
+    }
+
+    if (prefix === "ARGUMENT" && oldValue.defaultValue !== newValue.defaultValue) {
+      changes.push(
+        change(
+          "ARGUMENT_DEFAULT_CHANGED",
+          "dangerous",
+          path,
+          `${label} "${path}" default changed from ${oldValue.defaultValue ?? "none"} to ${newValue.defaultValue ?? "none"}`
+        )
+      );
+    }
+  }
+
+  const oldNames = new Set(oldValues.map((v) => v.name));
+  for (const newValue of newValues) {
+    if (oldNames.has(newValue.name)) continue;
+
+    const path = pathOf(newValue.name);
+    const required = newValue.type.kind === "NON_NULL" && newValue.defaultValue === null;
+    changes.push(
+      change(
+        `${prefix}_ADDED`,
+        required ? "breaking" : "dangerous",
+        path,
+        `${required ? "Required" : "Optional"} ${label.toLowerCase()} "${path}" was added`
+      )
+    );
+  }
+
+  return changes;
+}
+
+/**
+ * An output type change is safe if every value the old type could produce is
+ * still valid for clients, e.g. `String` -> `String!`.
+ */
+function isSafeOutputChange(oldType: IntrospectionTypeRef, newType: IntrospectionTypeRef): boolean {
+  if (oldType.kind === "LIST") {
+    return (
+      (newType.kind === "LIST" && isSafeOutputChange(oldType.ofType!, newType.ofType!)) ||
+      (newType.kind === "NON_NULL" && isSafeOutputChange(oldType, newType.ofType!))
+    );
+  }
+  if (oldType.kind === "NON_NULL") {
+    return newType.kind === "NON_NULL" && isSafeOutputChange(oldType.ofType!, newType.ofType!);
+  }
+  return (
+    (newType.kind !== "LIST" && newType.kind !== "NON_NULL" && newType.name === oldType.name) ||
+    (newType.kind === "NON_NULL" && isSafeOutputChange(oldType, newType.ofType!))
+  );
+}
+
+/**
+ * An input type change is safe if every value clients could send before is
+ * still accepted, e.g. `String!` -> `String`.
+ */
+function isSafeInputChange(oldType: IntrospectionTypeRef, newType: IntrospectionTypeRef): boolean {
+  if (oldType.kind === "LIST") {
+    return newType.kind === "LIST" && isSafeInputChange(oldType.ofType!, newType.ofType!);
+  }
+  if (oldType.kind === "NON_NULL") {
+    return (
+      (newType.kind === "NON_NULL" && isSafeInputChange(oldType.ofType!, newType.ofType!)) ||
+      (newType.kind !== "NON_NULL" && isSafeInputChange(oldType.ofType!, newType))
+    );
+  }
+  return newType.kind !== "LIST" && newType.kind !== "NON_NULL" && newType.name === oldType.name;
+}
+
+function names(refs: Array<{ name: string | null }> | null): Set<string> {
+  return new Set((refs ?? []).map((r) => r.name).filter((n): n is string => n !== null));
+}
+
+function change(
+  type: SchemaChangeType,
+  severity: ChangeSeverity,
+  path: string,
+  message: string
+): SchemaChange {
+  return { type, severity, path, message };
+}
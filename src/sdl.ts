@@ -0,0 +1,37 @@
+/**
+ * SDL Support
+ *
+ * Builds introspection schemas from GraphQL SDL files for servers that have
+ * introspection disabled, and prints introspection schemas back to SDL.
+ *
+ * @module sdl
+ */
+
+export {
+  // Parsing and schema building
+  parseSDL,
+  buildSchemaFromSDL,
+  buildSchemaFromDocuments,
+  mergeDefinitions,
+  type MergedDefinitions,
+  type BuildSchemaOptions,
+  DEFAULT_DEPRECATION_REASON,
+
+  // Printing
+  printSchema,
+  printTypeRef,
+  type PrintSchemaOptions,
+
+  // File loading
+  loadSchemaFromFiles,
+  loadSDLDocuments,
+  SDL_FILE_EXTENSIONS,
+
+  // Value literal utilities
+  printValue,
+  printString,
+  valueToJS,
+  getDirectiveArguments,
+} from "./sdl/index.js";
+
+export type * from "./sdl/ast.js";
@@ -0,0 +1,146 @@
+/**
+ * SDL syntax tree
+ *
+ * Node types produced by the SDL parser. Unlike introspection results, the
+ * tree keeps applied directives, which the analyzer reads for schema hints.
+ */
+
+// =============================================================================
+// VALUES AND TYPES
+// =============================================================================
+
+export type ValueNode =
+  | { kind: "Variable"; name: string }
+  | { kind: "Int"; value: string }
+  | { kind: "Float"; value: string }
+  | { kind: "String"; value: string; block: boolean }
+  | { kind: "Boolean"; value: boolean }
+  | { kind: "Null" }
+  | { kind: "Enum"; value: string }
+  | { kind: "List"; values: ValueNode[] }
+  | { kind: "Object"; fields: ObjectFieldNode[] };
+
+export interface ObjectFieldNode {
+  name: string;
+  value: ValueNode;
+}
+
+export type TypeNode =
+  | { kind: "NamedType"; name: string }
+  | { kind: "ListType"; type: TypeNode }
+  | { kind: "NonNullType"; type: TypeNode };
+
+export interface ArgumentNode {
+  name: string;
+  value: ValueNode;
+}
+
+export interface DirectiveNode {
+  name: string;
+  arguments: ArgumentNode[];
+}
+
+// =============================================================================
+// TYPE SYSTEM DEFINITIONS
+// =============================================================================
+
+export interface InputValueDefinitionNode {
+  description: string | null;
+  name: string;
+  type: TypeNode;
+  defaultValue: ValueNode | null;
+  directives: DirectiveNode[];
+}
+
+export interface FieldDefinitionNode {
+  description: string | null;
+  name: string;
+  arguments: InputValueDefinitionNode[];
+  type: TypeNode;
+  directives: DirectiveNode[];
+}
+
+export interface EnumValueDefinitionNode {
+  description: string | null;
+  name: string;
+  directives: DirectiveNode[];
+}
+
+/** Fields shared by every type definition and extension */
+interface TypeDefinitionBase {
+  /** Whether this node came from an `extend` keyword */
+  extend: boolean;
+  description: string | null;
+  name: string;
+  directives: DirectiveNode[];
+}
+
+export interface ScalarTypeDefinitionNode extends TypeDefinitionBase {
+  kind: "ScalarTypeDefinition";
+}
+
+export interface ObjectTypeDefinitionNode extends TypeDefinitionBase {
+  kind: "ObjectTypeDefinition";
+  interfaces: string[];
+  fields: FieldDefinitionNode[];
+}
+
+export interface InterfaceTypeDefinitionNode extends TypeDefinitionBase {
+  kind: "InterfaceTypeDefinition";
+  interfaces: string[];
+  fields: FieldDefinitionNode[];
+}
+
+export interface UnionTypeDefinitionNode extends TypeDefinitionBase {
+  kind: "UnionTypeDefinition";
+  types: string[];
+}
+
+export interface EnumTypeDefinitionNode extends TypeDefinitionBase {
+  kind: "EnumTypeDefinition";
+  values: EnumValueDefinitionNode[];
+}
+
+export interface InputObjectTypeDefinitionNode extends TypeDefinitionBase {
+  kind: "InputObjectTypeDefinition";
+  fields: InputValueDefinitionNode[];
+}
+
+export type TypeDefinitionNode =
+  | ScalarTypeDefinitionNode
+  | ObjectTypeDefinitionNode
+  | InterfaceTypeDefinitionNode
+  | UnionTypeDefinitionNode
+  | EnumTypeDefinitionNode
+  | InputObjectTypeDefinitionNode;
+
+export interface SchemaDefinitionNode {
+  kind: "SchemaDefinition";
+  extend: boolean;
+  description: string | null;
+  directives: DirectiveNode[];
+  operationTypes: Array<{
+    operation: "query" | "mutation" | "subscription";
+    type: string;
+  }>;
+}
+
+export interface DirectiveDefinitionNode {
+  kind: "DirectiveDefinition";
+  description: string | null;
+  name: string;
+  arguments: InputValueDefinitionNode[];
+  repeatable: boolean;
+  locations: string[];
+}
+
+export type DefinitionNode =
+  | SchemaDefinitionNode
+  | TypeDefinitionNode
+  | DirectiveDefinitionNode;
+
+export interface DocumentNode {
+  /** Name of the source the document was parsed from */
+  source: string;
+  definitions: DefinitionNode[];
+}
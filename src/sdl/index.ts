@@ -0,0 +1,21 @@
+/**
+ * SDL Support
+ *
+ * Parses GraphQL SDL into the introspection schema shape, so servers with
+ * introspection disabled can still be analyzed, and prints introspection
+ * schemas back to SDL. No dependency on graphql-js.
+ */
+
+export { parseSDL } from "./parser.js";
+export {
+  buildSchemaFromSDL,
+  buildSchemaFromDocuments,
+  mergeDefinitions,
+  DEFAULT_DEPRECATION_REASON,
+  type MergedDefinitions,
+  type BuildSchemaOptions,
+} from "./schema-builder.js";
+export { printSchema, printTypeRef, type PrintSchemaOptions } from "./printer.js";
+export { loadSchemaFromFiles, loadSDLDocuments, SDL_FILE_EXTENSIONS } from "./loader.js";
+export { printValue, printString, valueToJS, getDirectiveArguments } from "./values.js";
+export type * from "./ast.js";
@@ -0,0 +1,304 @@
+/**
+ * GraphQL lexer
+ *
+ * Splits GraphQL source text into tokens. Shared by the SDL parser and any
+ * other module that needs to read GraphQL documents without graphql-js.
+ */
+
+/** Kinds of lexical tokens */
+export type TokenKind =
+  | "<EOF>"
+  | "!"
+  | "$"
+  | "&"
+  | "("
+  | ")"
+  | "..."
+  | ":"
+  | "="
+  | "@"
+  | "["
+  | "]"
+  | "{"
+  | "|"
+  | "}"
+  | "Name"
+  | "Int"
+  | "Float"
+  | "String"
+  | "BlockString";
+
+/**
+ * A single lexical token
+ */
+export interface Token {
+  kind: TokenKind;
+
+  /** Token value (decoded for strings, raw text otherwise) */
+  value: string;
+
+  /** Offset of the first character in the source */
+  start: number;
+
+  /** Offset after the last character in the source */
+  end: number;
+}
+
+/**
+ * A named piece of GraphQL source text, e.g. the contents of a file
+ */
+export interface GraphQLSource {
+  name: string;
+  body: string;
+}
+
+const PUNCTUATORS = new Set(["!", "$", "&", "(", ")", ":", "=", "@", "[", "]", "{", "|", "}"]);
+
+/**
+ * Compute the 1-based line and column of an offset in a source
+ */
+export function getLocation(
+  body: string,
+  offset: number
+): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+
+  for (let i = 0; i < offset && i < body.length; i++) {
+    const ch = body[i];
+    if (ch === "\n" || (ch === "\r" && body[i + 1] !== "\n")) {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+
+  return { line, column: offset - lineStart + 1 };
+}
+
+/**
+ * Build an error pointing at a position in the source
+ */
+export function syntaxError(
+  source: GraphQLSource,
+  offset: number,
+  message: string
+): Error {
+  const { line, column } = getLocation(source.body, offset);
+  return new Error(`Syntax error in ${source.name} (${line}:${column}): ${message}`);
+}
+
+/**
+ * Tokenize a GraphQL source. Whitespace, commas and comments are skipped.
+ * The returned array always ends with an <EOF> token.
+ */
+export function tokenize(source: GraphQLSource): Token[] {
+  const body = source.body;
+  const tokens: Token[] = [];
+  let pos = body.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (pos < body.length) {
+    const ch = body[pos]!;
+
+    // Ignored tokens
+    if (ch === " " || ch === "\t" || ch === "," || ch === "\n" || ch === "\r") {
+      pos++;
+      continue;
+    }
+    if (ch === "#") {
+      while (pos < body.length && body[pos] !== "\n" && body[pos] !== "\r") {
+        pos++;
+      }
+      continue;
+    }
+
+    if (PUNCTUATORS.has(ch)) {
+      tokens.push({ kind: ch as TokenKind, value: ch, start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+
+    if (ch === ".") {
+      if (body.startsWith("...", pos)) {
+        tokens.push({ kind: "...", value: "...", start: pos, end: pos + 3 });
+        pos += 3;
+        continue;
+      }
+      throw syntaxError(source, pos, `Unexpected character "."`);
+    }
+
+    if (/[_A-Za-z]/.test(ch)) {
+      const match = /[_A-Za-z][_0-9A-Za-z]*/y;
+      match.lastIndex = pos;
+      const name = match.exec(body)![0];
+      tokens.push({ kind: "Name", value: name, start: pos, end: pos + name.length });
+      pos += name.length;
+      continue;
+    }
+
+    if (ch === "-" || /[0-9]/.test(ch)) {
+      tokens.push(readNumber(source, pos));
+      pos = tokens[tokens.length - 1]!.end;
+      continue;
+    }
+
+    if (ch === '"') {
+      const token = body.startsWith('"""', pos)
+        ? readBlockString(source, pos)
+        : readString(source, pos);
+      tokens.push(token);
+      pos = token.end;
+      continue;
+    }
+
+    throw syntaxError(source, pos, `Unexpected character ${JSON.stringify(ch)}`);
+  }
+
+  tokens.push({ kind: "<EOF>", value: "", start: body.length, end: body.length });
+  return tokens;
+}
+
+/**
+ * Read an Int or Float token
+ */
+function readNumber(source: GraphQLSource, start: number): Token {
+  const pattern = /-?(0|[1-9][0-9]*)(\.[0-9]+)?([eE][+-]?[0-9]+)?/y;
+  pattern.lastIndex = start;
+  const match = pattern.exec(source.body);
+
+  if (!match) {
+    throw syntaxError(source, start, "Invalid number");
+  }
+
+  const end = start + match[0].length;
+  const next = source.body[end];
+  if (next !== undefined && /[_A-Za-z0-9.]/.test(next)) {
+    throw syntaxError(source, end, `Invalid number, unexpected character ${JSON.stringify(next)}`);
+  }
+
+  const isFloat = match[2] !== undefined || match[3] !== undefined;
+  return { kind: isFloat ? "Float" : "Int", value: match[0], start, end };
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Read a single-line string token, decoding escape sequences
+ */
+function readString(source: GraphQLSource, start: number): Token {
+  const body = source.body;
+  let pos = start + 1;
+  let value = "";
+
+  while (pos < body.length) {
+    const ch = body[pos]!;
+
+    if (ch === '"') {
+      return { kind: "String", value, start, end: pos + 1 };
+    }
+    if (ch === "\n" || ch === "\r") {
+      break;
+    }
+
+    if (ch === "\\") {
+      const escaped = body[pos + 1];
+      if (escaped === "u") {
+        const braced = /\{([0-9A-Fa-f]+)\}/y;
+        braced.lastIndex = pos + 2;
+        const bracedMatch = braced.exec(body);
+        const fixedMatch = /^[0-9A-Fa-f]{4}/.exec(body.slice(pos + 2, pos + 6));
+        if (bracedMatch) {
+          value += String.fromCodePoint(parseInt(bracedMatch[1]!, 16));
+          pos += 2 + bracedMatch[0].length;
+        } else if (fixedMatch) {
+          value += String.fromCharCode(parseInt(fixedMatch[0], 16));
+          pos += 6;
+        } else {
+          throw syntaxError(source, pos, "Invalid unicode escape sequence");
+        }
+        continue;
+      }
+      if (escaped === undefined || !(escaped in ESCAPES)) {
+        throw syntaxError(source, pos, `Invalid escape sequence "\\${escaped ?? ""}"`);
+      }
+      value += ESCAPES[escaped];
+      pos += 2;
+      continue;
+    }
+
+    value += ch;
+    pos++;
+  }
+
+  throw syntaxError(source, start, "Unterminated string");
+}
+
+/**
+ * Read a block string token ("""...""")
+ */
+function readBlockString(source: GraphQLSource, start: number): Token {
+  const body = source.body;
+  let pos = start + 3;
+  let raw = "";
+
+  while (pos < body.length) {
+    if (body.startsWith('"""', pos)) {
+      return {
+        kind: "BlockString",
+        value: dedentBlockString(raw),
+        start,
+        end: pos + 3,
+      };
+    }
+    if (body.startsWith('\\"""', pos)) {
+      raw += '"""';
+      pos += 4;
+      continue;
+    }
+    raw += body[pos];
+    pos++;
+  }
+
+  throw syntaxError(source, start, "Unterminated block string");
+}
+
+/**
+ * Apply the spec's BlockStringValue algorithm: remove common indentation and
+ * leading/trailing blank lines.
+ */
+export function dedentBlockString(raw: string): string {
+  const lines = raw.split(/\r\n|[\n\r]/);
+  let commonIndent: number | null = null;
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i]!;
+    const indent = line.length - line.replace(/^[ \t]*/, "").length;
+    if (indent < line.length && (commonIndent === null || indent < commonIndent)) {
+      commonIndent = indent;
+    }
+  }
+
+  if (commonIndent) {
+    for (let i = 1; i < lines.length; i++) {
+      lines[i] = lines[i]!.slice(commonIndent);
+    }
+  }
+
+  const isBlank = (line: string) => /^[ \t]*$/.test(line);
+  while (lines.length > 0 && isBlank(lines[0]!)) {
+    lines.shift();
+  }
+  while (lines.length > 0 && isBlank(lines[lines.length - 1]!)) {
+    lines.pop();
+  }
+
+  return lines.join("\n");
+}
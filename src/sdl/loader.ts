@@ -0,0 +1,88 @@
+/**
+ * Loading SDL from the filesystem
+ */
+
+import { readFile, readdir, stat } from "fs/promises";
+import path from "path";
+
+import type { IntrospectionResult } from "../introspection.js";
+import type { DocumentNode } from "./ast.js";
+import { parseSDL } from "./parser.js";
+import { buildSchemaFromDocuments } from "./schema-builder.js";
+
+/** File extensions picked up when a directory is given */
+export const SDL_FILE_EXTENSIONS = [".graphql", ".graphqls", ".gql"];
+
+/**
+ * Load and parse SDL files. Directories are searched recursively for files
+ * with a known SDL extension, in sorted order.
+ */
+export async function loadSDLDocuments(paths: string[]): Promise<DocumentNode[]> {
+  const files: string[] = [];
+  for (const p of paths) {
+    files.push(...(await collectFiles(p)));
+  }
+
+  if (files.length === 0) {
+    throw new Error(`No SDL files found in: ${paths.join(", ")}`);
+  }
+
+  const documents: DocumentNode[] = [];
+  for (const file of files) {
+    const content = await readFile(file, "utf-8");
+    documents.push(parseSDL(content, file));
+  }
+  return documents;
+}
+
+/**
+ * Expand a path into files, searching directories recursively for the
+ * given extensions in sorted order
+ */
+export async function collectFiles(
+  target: string,
+  extensions: string[] = SDL_FILE_EXTENSIONS
+): Promise<string[]> {
+  const info = await stat(target);
+  if (!info.isDirectory()) {
+    return [target];
+  }
+
+  const entries = await readdir(target, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const entryPath = path.join(target, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await collectFiles(entryPath, extensions)));
+    } else if (extensions.includes(path.extname(entry.name))) {
+      files.push(entryPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Builds a schema from SDL files when introspection is unavailable.
+ * Returns the same result shape as `fetchSchema`.
+ *
+ * @param paths - SDL files and/or directories containing them
+ * @returns The introspection result with schema or error
+ */
+export async function loadSchemaFromFiles(
+  paths: string[]
+): Promise<IntrospectionResult> {
+  try {
+    const documents = await loadSDLDocuments(paths);
+    return {
+      success: true,
+      schema: buildSchemaFromDocuments(documents),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error while loading SDL",
+    };
+  }
+}
@@ -0,0 +1,451 @@
+/**
+ * SDL parser
+ *
+ * Recursive-descent parser for GraphQL type system documents.
+ */
+
+import type {
+  ArgumentNode,
+  DefinitionNode,
+  DirectiveDefinitionNode,
+  DirectiveNode,
+  DocumentNode,
+  EnumValueDefinitionNode,
+  FieldDefinitionNode,
+  InputValueDefinitionNode,
+  SchemaDefinitionNode,
+  TypeDefinitionNode,
+  TypeNode,
+  ValueNode,
+} from "./ast.js";
+
+import { syntaxError, tokenize } from "./lexer.js";
+import type { GraphQLSource, Token, TokenKind } from "./lexer.js";
+
+/**
+ * Parser position within a token stream
+ */
+export interface Cursor {
+  source: GraphQLSource;
+  tokens: Token[];
+  pos: number;
+}
+
+const OPERATION_TYPES = new Set(["query", "mutation", "subscription"]);
+
+/**
+ * Parse a GraphQL type system document (SDL).
+ *
+ * @param body - SDL text
+ * @param sourceName - Name used in error messages (e.g. a file path)
+ * @returns The parsed document
+ */
+export function parseSDL(body: string, sourceName = "GraphQL SDL"): DocumentNode {
+  const cursor = createCursor({ name: sourceName, body });
+  const definitions: DefinitionNode[] = [];
+
+  while (peek(cursor).kind !== "<EOF>") {
+    definitions.push(parseDefinition(cursor));
+  }
+
+  return { source: sourceName, definitions };
+}
+
+/**
+ * Create a cursor positioned at the first token of a source
+ */
+export function createCursor(source: GraphQLSource): Cursor {
+  return { source, tokens: tokenize(source), pos: 0 };
+}
+
+// =============================================================================
+// CURSOR HELPERS
+// =============================================================================
+
+export function peek(cursor: Cursor, offset = 0): Token {
+  const index = Math.min(cursor.pos + offset, cursor.tokens.length - 1);
+  return cursor.tokens[index]!;
+}
+
+export function advance(cursor: Cursor): Token {
+  const token = peek(cursor);
+  if (token.kind !== "<EOF>") {
+    cursor.pos++;
+  }
+  return token;
+}
+
+export function unexpected(cursor: Cursor, token = peek(cursor)): Error {
+  const found = token.kind === "<EOF>" ? "<EOF>" : `"${token.value}"`;
+  return syntaxError(cursor.source, token.start, `Unexpected ${found}`);
+}
+
+export function expect(cursor: Cursor, kind: TokenKind): Token {
+  const token = peek(cursor);
+  if (token.kind !== kind) {
+    const found = token.kind === "<EOF>" ? "<EOF>" : `"${token.value}"`;
+    throw syntaxError(cursor.source, token.start, `Expected ${kind}, found ${found}`);
+  }
+  return advance(cursor);
+}
+
+export function skip(cursor: Cursor, kind: TokenKind): boolean {
+  if (peek(cursor).kind === kind) {
+    advance(cursor);
+    return true;
+  }
+  return false;
+}
+
+export function expectKeyword(cursor: Cursor, keyword: string): void {
+  const token = peek(cursor);
+  if (token.kind !== "Name" || token.value !== keyword) {
+    throw syntaxError(cursor.source, token.start, `Expected "${keyword}", found "${token.value}"`);
+  }
+  advance(cursor);
+}
+
+function skipKeyword(cursor: Cursor, keyword: string): boolean {
+  const token = peek(cursor);
+  if (token.kind === "Name" && token.value === keyword) {
+    advance(cursor);
+    return true;
+  }
+  return false;
+}
+
+export function parseName(cursor: Cursor): string {
+  return expect(cursor, "Name").value;
+}
+
+/**
+ * Parse `open item+ close`, or nothing if the next token is not `open`
+ */
+export function optionalMany<T>(
+  cursor: Cursor,
+  open: TokenKind,
+  parseItem: (cursor: Cursor) => T,
+  close: TokenKind
+): T[] {
+  if (!skip(cursor, open)) {
+    return [];
+  }
+  const items: T[] = [];
+  do {
+    items.push(parseItem(cursor));
+  } while (!skip(cursor, close));
+  return items;
+}
+
+// =============================================================================
+// DEFINITIONS
+// =============================================================================
+
+function parseDefinition(cursor: Cursor): DefinitionNode {
+  const description = parseDescription(cursor);
+  const token = peek(cursor);
+
+  if (token.kind !== "Name") {
+    throw unexpected(cursor, token);
+  }
+
+  if (token.value === "extend") {
+    if (description !== null) {
+      throw syntaxError(cursor.source, token.start, "Extensions cannot have a description");
+    }
+    advance(cursor);
+    return parseDefinitionBody(cursor, null, true);
+  }
+
+  if (OPERATION_TYPES.has(token.value) || token.value === "fragment") {
+    throw syntaxError(
+      cursor.source,
+      token.start,
+      `Executable definition "${token.value}" is not allowed in a schema document`
+    );
+  }
+
+  return parseDefinitionBody(cursor, description, false);
+}
+
+function parseDefinitionBody(
+  cursor: Cursor,
+  description: string | null,
+  extend: boolean
+): DefinitionNode {
+  const keyword = peek(cursor);
+
+  switch (keyword.value) {
+    case "schema":
+      return parseSchemaDefinition(cursor, description, extend);
+    case "directive":
+      if (extend) break;
+      return parseDirectiveDefinition(cursor, description);
+    case "scalar":
+    case "type":
+    case "interface":
+    case "union":
+    case "enum":
+    case "input":
+      return parseTypeDefinition(cursor, description, extend);
+  }
+
+  throw unexpected(cursor, keyword);
+}
+
+function parseSchemaDefinition(
+  cursor: Cursor,
+  description: string | null,
+  extend: boolean
+): SchemaDefinitionNode {
+  expectKeyword(cursor, "schema");
+  const directives = parseDirectives(cursor, true);
+  const operationTypes = optionalMany(
+    cursor,
+    "{",
+    (c) => {
+      const token = expect(c, "Name");
+      if (!OPERATION_TYPES.has(token.value)) {
+        throw unexpected(c, token);
+      }
+      expect(c, ":");
+      return {
+        operation: token.value as "query" | "mutation" | "subscription",
+        type: parseName(c),
+      };
+    },
+    "}"
+  );
+
+  if (!extend && operationTypes.length === 0) {
+    throw unexpected(cursor);
+  }
+
+  return { kind: "SchemaDefinition", extend, description, directives, operationTypes };
+}
+
+function parseDirectiveDefinition(
+  cursor: Cursor,
+  description: string | null
+): DirectiveDefinitionNode {
+  expectKeyword(cursor, "directive");
+  expect(cursor, "@");
+  const name = parseName(cursor);
+  const args = optionalMany(cursor, "(", parseInputValueDefinition, ")");
+  const repeatable = skipKeyword(cursor, "repeatable");
+  expectKeyword(cursor, "on");
+
+  skip(cursor, "|");
+  const locations = [parseName(cursor)];
+  while (skip(cursor, "|")) {
+    locations.push(parseName(cursor));
+  }
+
+  return {
+    kind: "DirectiveDefinition",
+    description,
+    name,
+    arguments: args,
+    repeatable,
+    locations,
+  };
+}
+
+function parseTypeDefinition(
+  cursor: Cursor,
+  description: string | null,
+  extend: boolean
+): TypeDefinitionNode {
+  const keyword = advance(cursor).value;
+  const name = parseName(cursor);
+  const base = { extend, description, name };
+
+  switch (keyword) {
+    case "scalar":
+      return { kind: "ScalarTypeDefinition", ...base, directives: parseDirectives(cursor, true) };
+
+    case "type":
+    case "interface": {
+      const interfaces = parseImplementsInterfaces(cursor);
+      const directives = parseDirectives(cursor, true);
+      const fields = optionalMany(cursor, "{", parseFieldDefinition, "}");
+      return {
+        kind: keyword === "type" ? "ObjectTypeDefinition" : "InterfaceTypeDefinition",
+        ...base,
+        directives,
+        interfaces,
+        fields,
+      };
+    }
+
+    case "union": {
+      const directives = parseDirectives(cursor, true);
+      const types: string[] = [];
+      if (skip(cursor, "=")) {
+        skip(cursor, "|");
+        types.push(parseName(cursor));
+        while (skip(cursor, "|")) {
+          types.push(parseName(cursor));
+        }
+      }
+      return { kind: "UnionTypeDefinition", ...base, directives, types };
+    }
+
+    case "enum": {
+      const directives = parseDirectives(cursor, true);
+      const values = optionalMany(cursor, "{", parseEnumValueDefinition, "}");
+      return { kind: "EnumTypeDefinition", ...base, directives, values };
+    }
+
+    default: {
+      const directives = parseDirectives(cursor, true);
+      const fields = optionalMany(cursor, "{", parseInputValueDefinition, "}");
+      return { kind: "InputObjectTypeDefinition", ...base, directives, fields };
+    }
+  }
+}
+
+function parseImplementsInterfaces(cursor: Cursor): string[] {
+  if (!skipKeyword(cursor, "implements")) {
+    return [];
+  }
+  skip(cursor, "&");
+  const interfaces = [parseName(cursor)];
+  while (skip(cursor, "&")) {
+    interfaces.push(parseName(cursor));
+  }
+  return interfaces;
+}
+
+function parseFieldDefinition(cursor: Cursor): FieldDefinitionNode {
+  const description = parseDescription(cursor);
+  const name = parseName(cursor);
+  const args = optionalMany(cursor, "(", parseInputValueDefinition, ")");
+  expect(cursor, ":");
+  const type = parseTypeReference(cursor);
+  const directives = parseDirectives(cursor, true);
+
+  return { description, name, arguments: args, type, directives };
+}
+
+function parseInputValueDefinition(cursor: Cursor): InputValueDefinitionNode {
+  const description = parseDescription(cursor);
+  const name = parseName(cursor);
+  expect(cursor, ":");
+  const type = parseTypeReference(cursor);
+  const defaultValue = skip(cursor, "=") ? parseValue(cursor, true) : null;
+  const directives = parseDirectives(cursor, true);
+
+  return { description, name, type, defaultValue, directives };
+}
+
+function parseEnumValueDefinition(cursor: Cursor): EnumValueDefinitionNode {
+  const description = parseDescription(cursor);
+  const token = expect(cursor, "Name");
+  if (token.value === "true" || token.value === "false" || token.value === "null") {
+    throw syntaxError(cursor.source, token.start, `"${token.value}" is reserved and cannot be used as an enum value`);
+  }
+  const directives = parseDirectives(cursor, true);
+
+  return { description, name: token.value, directives };
+}
+
+function parseDescription(cursor: Cursor): string | null {
+  const token = peek(cursor);
+  if (token.kind === "String" || token.kind === "BlockString") {
+    advance(cursor);
+    return token.value;
+  }
+  return null;
+}
+
+// =============================================================================
+// SHARED GRAMMAR
+// =============================================================================
+
+export function parseTypeReference(cursor: Cursor): TypeNode {
+  let type: TypeNode;
+
+  if (skip(cursor, "[")) {
+    const inner = parseTypeReference(cursor);
+    expect(cursor, "]");
+    type = { kind: "ListType", type: inner };
+  } else {
+    type = { kind: "NamedType", name: parseName(cursor) };
+  }
+
+  if (skip(cursor, "!")) {
+    return { kind: "NonNullType", type };
+  }
+  return type;
+}
+
+export function parseDirectives(cursor: Cursor, isConst: boolean): DirectiveNode[] {
+  const directives: DirectiveNode[] = [];
+
+  while (skip(cursor, "@")) {
+    const name = parseName(cursor);
+    const args = optionalMany(cursor, "(", (c) => parseArgument(c, isConst), ")");
+    directives.push({ name, arguments: args });
+  }
+
+  return directives;
+}
+
+export function parseArgument(cursor: Cursor, isConst: boolean): ArgumentNode {
+  const name = parseName(cursor);
+  expect(cursor, ":");
+  return { name, value: parseValue(cursor, isConst) };
+}
+
+export function parseValue(cursor: Cursor, isConst: boolean): ValueNode {
+  const token = peek(cursor);
+
+  switch (token.kind) {
+    case "[": {
+      advance(cursor);
+      const values: ValueNode[] = [];
+      while (!skip(cursor, "]")) {
+        values.push(parseValue(cursor, isConst));
+      }
+      return { kind: "List", values };
+    }
+    case "{": {
+      advance(cursor);
+      const fields: Array<{ name: string; value: ValueNode }> = [];
+      while (!skip(cursor, "}")) {
+        const name = parseName(cursor);
+        expect(cursor, ":");
+        fields.push({ name, value: parseValue(cursor, isConst) });
+      }
+      return { kind: "Object", fields };
+    }
+    case "Int":
+      advance(cursor);
+      return { kind: "Int", value: token.value };
+    case "Float":
+      advance(cursor);
+      return { kind: "Float", value: token.value };
+    case "String":
+    case "BlockString":
+      advance(cursor);
+      return { kind: "String", value: token.value, block: token.kind === "BlockString" };
+    case "Name":
+      advance(cursor);
+      if (token.value === "true" || token.value === "false") {
+        return { kind: "Boolean", value: token.value === "true" };
+      }
+      if (token.value === "null") {
+        return { kind: "Null" };
+      }
+      return { kind: "Enum", value: token.value };
+    case "$":
+      if (!isConst) {
+        advance(cursor);
+        return { kind: "Variable", name: parseName(cursor) };
+      }
+      break;
+  }
+
+  throw unexpected(cursor, token);
+}
@@ -0,0 +1,240 @@
+/**
+ * SDL printer
+ *
+ * Prints an introspection schema as spec-compliant SDL. The output can be
+ * re-parsed with `buildSchemaFromSDL` to get an equivalent schema.
+ */
+
+import type {
+  IntrospectionDirective,
+  IntrospectionEnumValue,
+  IntrospectionField,
+  IntrospectionInputValue,
+  IntrospectionSchema,
+  IntrospectionType,
+  IntrospectionTypeRef,
+} from "../types.js";
+
+import { dedentBlockString } from "./lexer.js";
+import { DEFAULT_DEPRECATION_REASON } from "./schema-builder.js";
+import { printString } from "./values.js";
+
+const BUILT_IN_SCALARS = new Set(["String", "Int", "Float", "Boolean", "ID"]);
+const BUILT_IN_DIRECTIVES = new Set(["include", "skip", "deprecated", "specifiedBy", "oneOf"]);
+
+/** Descriptions longer than this are printed on their own lines */
+const MAX_INLINE_DESCRIPTION = 70;
+
+/**
+ * Options for printing a schema
+ */
+export interface PrintSchemaOptions {
+  /** Sort types and directives by name for stable diffs (default: false) */
+  sort?: boolean;
+}
+
+/**
+ * Prints an introspection schema as SDL.
+ *
+ * Built-in scalars, built-in directives and `__*` meta-types are omitted.
+ *
+ * @param schema - The introspection schema to print
+ * @param options - Printing options
+ * @returns SDL text ending in a newline
+ */
+export function printSchema(
+  schema: IntrospectionSchema,
+  options: PrintSchemaOptions = {}
+): string {
+  const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+  const directives = schema.directives.filter((d) => !BUILT_IN_DIRECTIVES.has(d.name));
+  const types = schema.types.filter(
+    (t) => !t.name.startsWith("__") && !BUILT_IN_SCALARS.has(t.name)
+  );
+  if (options.sort) {
+    directives.sort(byName);
+    types.sort(byName);
+  }
+
+  const blocks = [
+    printSchemaDefinition(schema),
+    ...directives.map(printDirectiveDefinition),
+    ...types.map(printType),
+  ].filter((block): block is string => block !== null);
+
+  return blocks.join("\n\n") + "\n";
+}
+
+/**
+ * Print a type reference in SDL notation (e.g. `[Post!]!`)
+ */
+export function printTypeRef(typeRef: IntrospectionTypeRef): string {
+  if (typeRef.kind === "NON_NULL" && typeRef.ofType) {
+    return `${printTypeRef(typeRef.ofType)}!`;
+  }
+  if (typeRef.kind === "LIST" && typeRef.ofType) {
+    return `[${printTypeRef(typeRef.ofType)}]`;
+  }
+  return typeRef.name ?? "Unknown";
+}
+
+/**
+ * A `schema { ... }` block is only needed when root types don't follow the
+ * Query/Mutation/Subscription naming convention.
+ */
+function printSchemaDefinition(schema: IntrospectionSchema): string | null {
+  const roots = [
+    { operation: "query", type: schema.queryType, conventional: "Query" },
+    { operation: "mutation", type: schema.mutationType, conventional: "Mutation" },
+    { operation: "subscription", type: schema.subscriptionType, conventional: "Subscription" },
+  ];
+
+  const isConventional = roots.every(({ type, conventional }) =>
+    type
+      ? type.name === conventional
+      : !schema.types.some((t) => t.name === conventional && t.kind === "OBJECT")
+  );
+  if (isConventional) {
+    return null;
+  }
+
+  const lines = roots
+    .filter((root) => root.type)
+    .map((root) => `  ${root.operation}: ${root.type!.name}`);
+  return `schema {\n${lines.join("\n")}\n}`;
+}
+
+function printDirectiveDefinition(directive: IntrospectionDirective): string {
+  return (
+    printDescription(directive.description, "") +
+    `directive @${directive.name}${printArgs(directive.args, "")}` +
+    `${directive.isRepeatable ? " repeatable" : ""} on ${directive.locations.join(" | ")}`
+  );
+}
+
+function printType(type: IntrospectionType): string {
+  const description = printDescription(type.description, "");
+
+  switch (type.kind) {
+    case "SCALAR": {
+      const specifiedBy = type.specifiedByURL
+        ? ` @specifiedBy(url: ${printString(type.specifiedByURL)})`
+        : "";
+      return `${description}scalar ${type.name}${specifiedBy}`;
+    }
+
+    case "OBJECT":
+    case "INTERFACE": {
+      const keyword = type.kind === "OBJECT" ? "type" : "interface";
+      return (
+        `${description}${keyword} ${type.name}${printImplements(type.interfaces)}` +
+        printBlock((type.fields ?? []).map(printField))
+      );
+    }
+
+    case "UNION": {
+      const members = (type.possibleTypes ?? []).map((t) => t.name).join(" | ");
+      return `${description}union ${type.name}${members ? ` = ${members}` : ""}`;
+    }
+
+    case "ENUM":
+      return `${description}enum ${type.name}` + printBlock((type.enumValues ?? []).map(printEnumValue));
+
+    case "INPUT_OBJECT":
+      return (
+        `${description}input ${type.name}${type.isOneOf ? " @oneOf" : ""}` +
+        printBlock((type.inputFields ?? []).map((f) => printInputValue(f, "  ")))
+      );
+
+    default:
+      return `${description}scalar ${type.name}`;
+  }
+}
+
+function printImplements(interfaces: IntrospectionTypeRef[] | null): string {
+  if (!interfaces || interfaces.length === 0) {
+    return "";
+  }
+  return ` implements ${interfaces.map((i) => i.name).join(" & ")}`;
+}
+
+function printBlock(lines: string[]): string {
+  return lines.length > 0 ? ` {\n${lines.join("\n")}\n}` : "";
+}
+
+function printField(field: IntrospectionField): string {
+  return (
+    printDescription(field.description, "  ") +
+    `  ${field.name}${printArgs(field.args, "  ")}: ${printTypeRef(field.type)}` +
+    printDeprecated(field.isDeprecated, field.deprecationReason)
+  );
+}
+
+function printArgs(args: IntrospectionInputValue[], indent: string): string {
+  if (args.length === 0) {
+    return "";
+  }
+
+  // Arguments go on one line unless any of them carries a description
+  if (args.every((arg) => !arg.description)) {
+    return `(${args.map((arg) => printInputValue(arg, "")).join(", ")})`;
+  }
+
+  const lines = args.map((arg) => printInputValue(arg, indent + "  "));
+  return `(\n${lines.join("\n")}\n${indent})`;
+}
+
+function printInputValue(value: IntrospectionInputValue, indent: string): string {
+  const defaultValue = value.defaultValue !== null ? ` = ${value.defaultValue}` : "";
+  return (
+    printDescription(value.description, indent) +
+    `${indent}${value.name}: ${printTypeRef(value.type)}${defaultValue}` +
+    printDeprecated(value.isDeprecated ?? false, value.deprecationReason ?? null)
+  );
+}
+
+function printEnumValue(value: IntrospectionEnumValue): string {
+  return (
+    printDescription(value.description, "  ") +
+    `  ${value.name}` +
+    printDeprecated(value.isDeprecated, value.deprecationReason)
+  );
+}
+
+function printDeprecated(isDeprecated: boolean, reason: string | null): string {
+  if (!isDeprecated) {
+    return "";
+  }
+  if (reason === null || reason === DEFAULT_DEPRECATION_REASON) {
+    return " @deprecated";
+  }
+  return ` @deprecated(reason: ${printString(reason)})`;
+}
+
+/**
+ * Print a description as a block string on its own line(s), followed by a
+ * newline. Falls back to a regular string when a block string could not
+ * represent the text exactly (e.g. uniformly indented lines).
+ */
+function printDescription(description: string | null, indent: string): string {
+  if (description === null || description === undefined) {
+    return "";
+  }
+
+  const escaped = description.replace(/"""/g, '\\"""');
+  const multiline =
+    description.includes("\n") ||
+    description.length > MAX_INLINE_DESCRIPTION ||
+    description.endsWith('"') ||
+    description.endsWith("\\");
+
+  const body = multiline
+    ? `\n${escaped.split("\n").map((line) => (line ? indent + line : line)).join("\n")}\n${indent}`
+    : escaped;
+
+  const roundTrips = dedentBlockString(body.replace(/\\"""/g, '"""')) === description;
+  const literal = roundTrips ? `"""${body}"""` : printString(description);
+
+  return `${indent}${literal}\n`;
+}
@@ -0,0 +1,500 @@
+/**
+ * Build an introspection schema from parsed SDL documents
+ */
+
+import type {
+  IntrospectionDirective,
+  IntrospectionEnumValue,
+  IntrospectionField,
+  IntrospectionInputValue,
+  IntrospectionSchema,
+  IntrospectionType,
+  IntrospectionTypeRef,
+  TypeKind,
+} from "../types.js";
+
+import type {
+  DirectiveDefinitionNode,
+  DirectiveNode,
+  DocumentNode,
+  FieldDefinitionNode,
+  InputValueDefinitionNode,
+  SchemaDefinitionNode,
+  TypeDefinitionNode,
+  TypeNode,
+} from "./ast.js";
+
+import { parseSDL } from "./parser.js";
+import { printValue, getDirectiveArguments } from "./values.js";
+
+/** Reason introspection reports for `@deprecated` without arguments */
+export const DEFAULT_DEPRECATION_REASON = "No longer supported";
+
+const BUILT_IN_SCALARS = ["String", "Int", "Float", "Boolean", "ID"];
+
+const BUILT_IN_DIRECTIVES: IntrospectionDirective[] = [
+  {
+    name: "include",
+    description: "Directs the executor to include this field or fragment only when the `if` argument is true.",
+    locations: ["FIELD", "FRAGMENT_SPREAD", "INLINE_FRAGMENT"],
+    args: [builtInArg("if", "Included when true.", "Boolean")],
+    isRepeatable: false,
+  },
+  {
+    name: "skip",
+    description: "Directs the executor to skip this field or fragment when the `if` argument is true.",
+    locations: ["FIELD", "FRAGMENT_SPREAD", "INLINE_FRAGMENT"],
+    args: [builtInArg("if", "Skipped when true.", "Boolean")],
+    isRepeatable: false,
+  },
+  {
+    name: "deprecated",
+    description: "Marks an element of a GraphQL schema as no longer supported.",
+    locations: ["FIELD_DEFINITION", "ARGUMENT_DEFINITION", "INPUT_FIELD_DEFINITION", "ENUM_VALUE"],
+    args: [
+      {
+        name: "reason",
+        description: "Explains why this element was deprecated.",
+        type: { kind: "SCALAR", name: "String", ofType: null },
+        defaultValue: `"${DEFAULT_DEPRECATION_REASON}"`,
+        isDeprecated: false,
+        deprecationReason: null,
+      },
+    ],
+    isRepeatable: false,
+  },
+  {
+    name: "specifiedBy",
+    description: "Exposes a URL that specifies the behavior of this scalar.",
+    locations: ["SCALAR"],
+    args: [builtInArg("url", "The URL that specifies the behavior of this scalar.", "String")],
+    isRepeatable: false,
+  },
+  {
+    name: "oneOf",
+    description: "Indicates exactly one field must be supplied and this field must not be `null`.",
+    locations: ["INPUT_OBJECT"],
+    args: [],
+    isRepeatable: false,
+  },
+];
+
+function builtInArg(name: string, description: string, scalar: string): IntrospectionInputValue {
+  return {
+    name,
+    description,
+    type: { kind: "NON_NULL", name: null, ofType: { kind: "SCALAR", name: scalar, ofType: null } },
+    defaultValue: null,
+    isDeprecated: false,
+    deprecationReason: null,
+  };
+}
+
+const KIND_BY_NODE: Record<TypeDefinitionNode["kind"], TypeKind> = {
+  ScalarTypeDefinition: "SCALAR",
+  ObjectTypeDefinition: "OBJECT",
+  InterfaceTypeDefinition: "INTERFACE",
+  UnionTypeDefinition: "UNION",
+  EnumTypeDefinition: "ENUM",
+  InputObjectTypeDefinition: "INPUT_OBJECT",
+};
+
+/**
+ * Options for building a schema from SDL
+ */
+export interface BuildSchemaOptions {
+  /**
+   * Treat references to undefined types as custom scalars instead of failing.
+   * Useful for partial SDL such as federation subgraphs, which reference
+   * `_Any` or `FieldSet` without defining them.
+   */
+  allowUndefinedTypes?: boolean;
+}
+
+/**
+ * Definitions from one or more documents with extensions applied
+ */
+export interface MergedDefinitions {
+  /** Type definitions by name, in first-seen order, extensions merged in */
+  types: Map<string, TypeDefinitionNode>;
+
+  /** Directive definitions by name */
+  directives: Map<string, DirectiveDefinitionNode>;
+
+  /** Schema definition with extensions merged in, if any */
+  schema: SchemaDefinitionNode | null;
+}
+
+/**
+ * Merge type definitions and their `extend` counterparts across documents.
+ *
+ * Extensions of types that are never defined are treated as definitions, as
+ * federation subgraphs commonly `extend type Query` without declaring it.
+ */
+export function mergeDefinitions(documents: DocumentNode[]): MergedDefinitions {
+  const types = new Map<string, TypeDefinitionNode>();
+  const directives = new Map<string, DirectiveDefinitionNode>();
+  const extensions: Array<{ node: TypeDefinitionNode; source: string }> = [];
+  let schema: SchemaDefinitionNode | null = null;
+  const schemaExtensions: SchemaDefinitionNode[] = [];
+
+  for (const document of documents) {
+    for (const definition of document.definitions) {
+      switch (definition.kind) {
+        case "SchemaDefinition":
+          if (definition.extend) {
+            schemaExtensions.push(definition);
+          } else if (schema) {
+            throw new Error(`Schema defined more than once (again in ${document.source})`);
+          } else {
+            schema = cloneSchemaDefinition(definition);
+          }
+          break;
+
+        case "DirectiveDefinition":
+          if (directives.has(definition.name)) {
+            throw new Error(`Directive "@${definition.name}" defined more than once (again in ${document.source})`);
+          }
+          directives.set(definition.name, definition);
+          break;
+
+        default:
+          if (definition.extend) {
+            extensions.push({ node: definition, source: document.source });
+          } else if (types.has(definition.name)) {
+            throw new Error(`Type "${definition.name}" defined more than once (again in ${document.source})`);
+          } else {
+            types.set(definition.name, cloneTypeDefinition(definition));
+          }
+      }
+    }
+  }
+
+  for (const { node, source } of extensions) {
+    const target = types.get(node.name);
+    if (!target) {
+      types.set(node.name, { ...cloneTypeDefinition(node), extend: false });
+      continue;
+    }
+    if (target.kind !== node.kind) {
+      throw new Error(
+        `Cannot extend ${KIND_BY_NODE[target.kind]} "${node.name}" as ${KIND_BY_NODE[node.kind]} (in ${source})`
+      );
+    }
+    applyExtension(target, node);
+  }
+
+  for (const extension of schemaExtensions) {
+    if (!schema) {
+      schema = { ...cloneSchemaDefinition(extension), extend: false };
+      continue;
+    }
+    schema.directives.push(...extension.directives);
+    schema.operationTypes.push(...extension.operationTypes);
+  }
+
+  return { types, directives, schema };
+}
+
+function cloneSchemaDefinition(node: SchemaDefinitionNode): SchemaDefinitionNode {
+  return { ...node, directives: [...node.directives], operationTypes: [...node.operationTypes] };
+}
+
+function cloneTypeDefinition(node: TypeDefinitionNode): TypeDefinitionNode {
+  switch (node.kind) {
+    case "ObjectTypeDefinition":
+    case "InterfaceTypeDefinition":
+      return { ...node, directives: [...node.directives], interfaces: [...node.interfaces], fields: [...node.fields] };
+    case "UnionTypeDefinition":
+      return { ...node, directives: [...node.directives], types: [...node.types] };
+    case "EnumTypeDefinition":
+      return { ...node, directives: [...node.directives], values: [...node.values] };
+    case "InputObjectTypeDefinition":
+      return { ...node, directives: [...node.directives], fields: [...node.fields] };
+    case "ScalarTypeDefinition":
+      return { ...node, directives: [...node.directives] };
+  }
+}
+
+function applyExtension(target: TypeDefinitionNode, extension: TypeDefinitionNode): void {
+  target.directives.push(...extension.directives);
+
+  if (
+    (target.kind === "ObjectTypeDefinition" || target.kind === "InterfaceTypeDefinition") &&
+    (extension.kind === "ObjectTypeDefinition" || extension.kind === "InterfaceTypeDefinition")
+  ) {
+    target.interfaces.push(...extension.interfaces.filter((i) => !target.interfaces.includes(i)));
+    pushUnique(target.fields, extension.fields, target.name, "field");
+  } else if (target.kind === "UnionTypeDefinition" && extension.kind === "UnionTypeDefinition") {
+    target.types.push(...extension.types.filter((t) => !target.types.includes(t)));
+  } else if (target.kind === "EnumTypeDefinition" && extension.kind === "EnumTypeDefinition") {
+    pushUnique(target.values, extension.values, target.name, "enum value");
+  } else if (target.kind === "InputObjectTypeDefinition" && extension.kind === "InputObjectTypeDefinition") {
+    pushUnique(target.fields, extension.fields, target.name, "input field");
+  }
+}
+
+function pushUnique<T extends { name: string }>(
+  target: T[],
+  additions: T[],
+  typeName: string,
+  label: string
+): void {
+  for (const item of additions) {
+    if (target.some((existing) => existing.name === item.name)) {
+      throw new Error(`Duplicate ${label} "${typeName}.${item.name}"`);
+    }
+    target.push(item);
+  }
+}
+
+// =============================================================================
+// SCHEMA BUILDING
+// =============================================================================
+
+/**
+ * Build an introspection schema from SDL.
+ *
+ * Accepts one or more sources; types may be split across them and extended
+ * with `extend type` in any order. The result has the same shape as a
+ * `fetchSchema` result from a fully capable server (including
+ * `specifiedByURL`, `isOneOf`, `isRepeatable` and input value deprecation),
+ * minus the `__*` introspection meta-types.
+ *
+ * @param sdl - SDL text, or a list of SDL texts / parsed documents
+ * @param options - Build options
+ * @returns The equivalent introspection schema
+ * @throws Error on syntax errors or references to undefined types
+ */
+export function buildSchemaFromSDL(
+  sdl: string | Array<string | DocumentNode>,
+  options: BuildSchemaOptions = {}
+): IntrospectionSchema {
+  const inputs = typeof sdl === "string" ? [sdl] : sdl;
+  const documents = inputs.map((input, i) =>
+    typeof input === "string"
+      ? parseSDL(input, inputs.length > 1 ? `SDL source #${i + 1}` : "GraphQL SDL")
+      : input
+  );
+
+  return buildSchemaFromDocuments(documents, options);
+}
+
+/**
+ * Build an introspection schema from already parsed SDL documents
+ */
+export function buildSchemaFromDocuments(
+  documents: DocumentNode[],
+  options: BuildSchemaOptions = {}
+): IntrospectionSchema {
+  const merged = mergeDefinitions(documents);
+  const kinds = new Map<string, TypeKind>();
+
+  for (const [name, node] of merged.types) {
+    kinds.set(name, KIND_BY_NODE[node.kind]);
+  }
+  for (const scalar of BUILT_IN_SCALARS) {
+    if (!kinds.has(scalar)) {
+      kinds.set(scalar, "SCALAR");
+    }
+  }
+
+  const undefinedTypes: string[] = [];
+  const resolve = (node: TypeNode, context: string) =>
+    buildTypeRef(node, kinds, context, options.allowUndefinedTypes ? undefinedTypes : null);
+
+  const types: IntrospectionType[] = [...merged.types.values()].map((node) =>
+    buildType(node, merged.types, resolve)
+  );
+  for (const scalar of BUILT_IN_SCALARS) {
+    if (!merged.types.has(scalar)) {
+      types.push(emptyType("SCALAR", scalar, null));
+    }
+  }
+
+  const directives: IntrospectionDirective[] = [...merged.directives.values()].map((node) => ({
+    name: node.name,
+    description: node.description,
+    locations: node.locations,
+    args: node.arguments.map((arg) => buildInputValue(arg, resolve, `@${node.name}(${arg.name}:)`)),
+    isRepeatable: node.repeatable,
+  }));
+  for (const builtIn of BUILT_IN_DIRECTIVES) {
+    if (!merged.directives.has(builtIn.name)) {
+      directives.push(builtIn);
+    }
+  }
+
+  for (const name of undefinedTypes) {
+    types.push({ ...emptyType("SCALAR", name, null), specifiedByURL: null });
+  }
+
+  return {
+    queryType: rootType(merged, "query", "Query", kinds),
+    mutationType: rootType(merged, "mutation", "Mutation", kinds),
+    subscriptionType: rootType(merged, "subscription", "Subscription", kinds),
+    types,
+    directives,
+  };
+}
+
+function rootType(
+  merged: MergedDefinitions,
+  operation: "query" | "mutation" | "subscription",
+  defaultName: string,
+  kinds: Map<string, TypeKind>
+): { name: string } | null {
+  // `extend schema @link(...)` alone (as in federation subgraphs) keeps default root names
+  if (merged.schema && merged.schema.operationTypes.length > 0) {
+    const entry = merged.schema.operationTypes.find((op) => op.operation === operation);
+    if (!entry) {
+      return null;
+    }
+    if (kinds.get(entry.type) !== "OBJECT") {
+      throw new Error(`Root ${operation} type "${entry.type}" must be a defined object type`);
+    }
+    return { name: entry.type };
+  }
+
+  return kinds.get(defaultName) === "OBJECT" ? { name: defaultName } : null;
+}
+
+function emptyType(kind: TypeKind, name: string, description: string | null): IntrospectionType {
+  return {
+    kind,
+    name,
+    description,
+    fields: null,
+    inputFields: null,
+    interfaces: null,
+    enumValues: null,
+    possibleTypes: null,
+  };
+}
+
+function buildType(
+  node: TypeDefinitionNode,
+  allTypes: Map<string, TypeDefinitionNode>,
+  resolve: (node: TypeNode, context: string) => IntrospectionTypeRef
+): IntrospectionType {
+  const type = emptyType(KIND_BY_NODE[node.kind], node.name, node.description);
+  const namedRef = (name: string, context: string) =>
+    resolve({ kind: "NamedType", name }, context);
+
+  switch (node.kind) {
+    case "ScalarTypeDefinition": {
+      const specifiedBy = node.directives.find((d) => d.name === "specifiedBy");
+      const url = specifiedBy ? getDirectiveArguments(specifiedBy).url : null;
+      type.specifiedByURL = typeof url === "string" ? url : null;
+      break;
+    }
+
+    case "ObjectTypeDefinition":
+    case "InterfaceTypeDefinition":
+      type.fields = node.fields.map((field) => buildField(field, node.name, resolve));
+      type.interfaces = node.interfaces.map((name) =>
+        namedRef(name, `${node.name} implements ${name}`)
+      );
+      if (node.kind === "InterfaceTypeDefinition") {
+        type.possibleTypes = [...allTypes.values()]
+          .filter((t) => t.kind === "ObjectTypeDefinition" && t.interfaces.includes(node.name))
+          .map((t) => ({ kind: "OBJECT", name: t.name, ofType: null }));
+      }
+      break;
+
+    case "UnionTypeDefinition":
+      type.possibleTypes = node.types.map((name) => namedRef(name, `union ${node.name}`));
+      break;
+
+    case "EnumTypeDefinition":
+      type.enumValues = node.values.map((value): IntrospectionEnumValue => ({
+        name: value.name,
+        description: value.description,
+        ...deprecation(value.directives),
+      }));
+      break;
+
+    case "InputObjectTypeDefinition":
+      type.inputFields = node.fields.map((field) =>
+        buildInputValue(field, resolve, `${node.name}.${field.name}`)
+      );
+      type.isOneOf = node.directives.some((d) => d.name === "oneOf");
+      break;
+  }
+
+  return type;
+}
+
+function buildField(
+  node: FieldDefinitionNode,
+  typeName: string,
+  resolve: (node: TypeNode, context: string) => IntrospectionTypeRef
+): IntrospectionField {
+  const context = `${typeName}.${node.name}`;
+  return {
+    name: node.name,
+    description: node.description,
+    args: node.arguments.map((arg) => buildInputValue(arg, resolve, `${context}(${arg.name}:)`)),
+    type: resolve(node.type, context),
+    ...deprecation(node.directives),
+  };
+}
+
+function buildInputValue(
+  node: InputValueDefinitionNode,
+  resolve: (node: TypeNode, context: string) => IntrospectionTypeRef,
+  context: string
+): IntrospectionInputValue {
+  return {
+    name: node.name,
+    description: node.description,
+    type: resolve(node.type, context),
+    defaultValue: node.defaultValue ? printValue(node.defaultValue) : null,
+    ...deprecation(node.directives),
+  };
+}
+
+function deprecation(directives: DirectiveNode[]): {
+  isDeprecated: boolean;
+  deprecationReason: string | null;
+} {
+  const directive = directives.find((d) => d.name === "deprecated");
+  if (!directive) {
+    return { isDeprecated: false, deprecationReason: null };
+  }
+  const reason = getDirectiveArguments(directive).reason;
+  return {
+    isDeprecated: true,
+    deprecationReason: typeof reason === "string" ? reason : DEFAULT_DEPRECATION_REASON,
+  };
+}
+
+/**
+ * Resolve a type reference. Unknown names fail, unless `undefinedTypes` is
+ * given, in which case they are collected there and treated as scalars.
+ */
+function buildTypeRef(
+  node: TypeNode,
+  kinds: Map<string, TypeKind>,
+  context: string,
+  undefinedTypes: string[] | null
+): IntrospectionTypeRef {
+  switch (node.kind) {
+    case "NonNullType":
+      return { kind: "NON_NULL", name: null, ofType: buildTypeRef(node.type, kinds, context, undefinedTypes) };
+    case "ListType":
+      return { kind: "LIST", name: null, ofType: buildTypeRef(node.type, kinds, context, undefinedTypes) };
+    case "NamedType": {
+      let kind = kinds.get(node.name);
+      if (!kind && undefinedTypes) {
+        kind = "SCALAR";
+        kinds.set(node.name, kind);
+        undefinedTypes.push(node.name);
+      }
+      if (!kind) {
+        throw new Error(`Unknown type "${node.name}" referenced by ${context}`);
+      }
+      return { kind, name: node.name, ofType: null };
+    }
+  }
+}
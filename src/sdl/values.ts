@@ -0,0 +1,93 @@
+/**
+ * Value literal utilities
+ */
+
+import type { DirectiveNode, ValueNode } from "./ast.js";
+
+/**
+ * Print a string as a GraphQL string literal
+ */
+export function printString(value: string): string {
+  const escaped = value.replace(/[\x00-\x1f\x22\x5c\x7f-\x9f]/g, (ch) => {
+    switch (ch) {
+      case '"':
+        return '\\"';
+      case "\\":
+        return "\\\\";
+      case "\b":
+        return "\\b";
+      case "\f":
+        return "\\f";
+      case "\n":
+        return "\\n";
+      case "\r":
+        return "\\r";
+      case "\t":
+        return "\\t";
+      default:
+        return "\\u" + ch.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0");
+    }
+  });
+  return `"${escaped}"`;
+}
+
+/**
+ * Print a value literal in the compact form introspection uses for
+ * `defaultValue` (e.g. `{limit: 10, tags: ["a"]}`)
+ */
+export function printValue(value: ValueNode): string {
+  switch (value.kind) {
+    case "Variable":
+      return `$${value.name}`;
+    case "Int":
+    case "Float":
+      return value.value;
+    case "String":
+      return printString(value.value);
+    case "Boolean":
+      return value.value ? "true" : "false";
+    case "Null":
+      return "null";
+    case "Enum":
+      return value.value;
+    case "List":
+      return `[${value.values.map(printValue).join(", ")}]`;
+    case "Object":
+      return `{${value.fields.map((f) => `${f.name}: ${printValue(f.value)}`).join(", ")}}`;
+  }
+}
+
+/**
+ * Convert a constant value literal to a plain JavaScript value.
+ * Enum values become their names; variables become undefined.
+ */
+export function valueToJS(value: ValueNode): unknown {
+  switch (value.kind) {
+    case "Variable":
+      return undefined;
+    case "Int":
+      return parseInt(value.value, 10);
+    case "Float":
+      return parseFloat(value.value);
+    case "String":
+    case "Enum":
+      return value.value;
+    case "Boolean":
+      return value.value;
+    case "Null":
+      return null;
+    case "List":
+      return value.values.map(valueToJS);
+    case "Object":
+      return Object.fromEntries(value.fields.map((f) => [f.name, valueToJS(f.value)]));
+  }
+}
+
+/**
+ * Read the arguments of an applied directive as plain JavaScript values
+ */
+export function getDirectiveArguments(directive: DirectiveNode): Record<string, unknown> {
+  return Object.fromEntries(
+    directive.arguments.map((arg) => [arg.name, valueToJS(arg.value)])
+  );
+}
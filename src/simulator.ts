@@ -0,0 +1,20 @@
+/**
+ * Cache Simulator
+ *
+ * Estimates how a cache config performs on recorded traffic, using the
+ * edge's rule resolution, TTL semantics and invalidation patterns, and
+ * compares two configs on the same events.
+ *
+ * @module simulator
+ */
+
+export {
+  // Simulation
+  simulateCache,
+  compareConfigs,
+  type SimulationOptions,
+
+  // Mutation invalidations
+  resolveInvalidations,
+  type ResolvedInvalidation,
+} from "./simulator/index.js";
@@ -0,0 +1,10 @@
+/**
+ * Cache Simulator
+ *
+ * Replays recorded queries and mutations through a cache config offline to
+ * estimate hit ratio, stale serving, origin load and data staleness before
+ * the config is deployed.
+ */
+
+export { simulateCache, compareConfigs, type SimulationOptions } from "./simulate.js";
+export { resolveInvalidations, type ResolvedInvalidation } from "./invalidation.js";
@@ -0,0 +1,120 @@
+/**
+ * Mutation invalidations
+ *
+ * Resolves the invalidation patterns a mutation request triggers, filling
+ * "{field}" placeholders the way the edge does: from the mutation's result,
+ * else from its arguments.
+ */
+
+import type { CacheKeyRequest, OrionCacheConfig } from "../types.js";
+import type { ValueNode } from "../sdl/ast.js";
+import type { FieldNode, SelectionNode } from "../operations/ast.js";
+
+import { parseOperationDocument } from "../operations/parser.js";
+import { selectOperation } from "../operations/printer.js";
+
+/**
+ * Root fields of a mutation request and the patterns they invalidate
+ */
+export interface ResolvedInvalidation {
+  fields: string[];
+  patterns: string[];
+}
+
+/**
+ * Resolve the invalidation patterns of a mutation request. Placeholders
+ * that can't be resolved are kept, and match every instance of the type.
+ *
+ * @param request - The mutation request
+ * @param response - Origin response, whose root field results fill placeholders
+ * @param config - Config with the invalidation patterns
+ */
+export function resolveInvalidations(
+  request: CacheKeyRequest,
+  response: unknown,
+  config: OrionCacheConfig
+): ResolvedInvalidation {
+  const document = parseOperationDocument(request.query, "request");
+  const operation = selectOperation(document, request.operationName);
+  const variables = request.variables ?? {};
+  const data = isObject(response) && isObject(response.data) ? response.data : {};
+
+  const fields: string[] = [];
+  const patterns = new Set<string>();
+
+  for (const field of rootFields(operation.selectionSet)) {
+    fields.push(field.name);
+    const args = Object.fromEntries(
+      field.arguments.map((arg) => [arg.name, argumentValue(arg.value, variables)])
+    );
+    const result = data[field.alias ?? field.name];
+    const results = Array.isArray(result) ? result : [result];
+
+    for (const pattern of config.invalidations[field.name] ?? []) {
+      for (const item of results) {
+        patterns.add(fillPattern(pattern, item, args));
+      }
+    }
+  }
+
+  return { fields, patterns: [...patterns] };
+}
+
+function rootFields(selections: SelectionNode[]): FieldNode[] {
+  return selections.flatMap((selection) => {
+    if (selection.kind === "Field") return [selection];
+    if (selection.kind === "InlineFragment") return rootFields(selection.selectionSet);
+    return [];
+  });
+}
+
+/**
+ * Fill each "{path}" from the result, then the arguments, then any input
+ * object argument (e.g. `input.id`)
+ */
+function fillPattern(pattern: string, result: unknown, args: Record<string, unknown>): string {
+  return pattern.replace(/\{([^}]+)\}/g, (placeholder, path: string) => {
+    const sources = [result, args, ...Object.values(args).filter(isObject)];
+    for (const source of sources) {
+      const value = readPath(source, path);
+      if (typeof value === "string" || typeof value === "number") {
+        return String(value);
+      }
+    }
+    return placeholder;
+  });
+}
+
+function argumentValue(value: ValueNode, variables: Record<string, unknown>): unknown {
+  switch (value.kind) {
+    case "Variable":
+      return variables[value.name];
+    case "Int":
+    case "Float":
+      return Number(value.value);
+    case "String":
+    case "Enum":
+      return value.value;
+    case "Boolean":
+      return value.value;
+    case "Null":
+      return null;
+    case "List":
+      return value.values.map((v) => argumentValue(v, variables));
+    case "Object":
+      return Object.fromEntries(value.fields.map((f) => [f.name, argumentValue(f.value, variables)]));
+  }
+}
+
+function readPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const segment of path.split(".")) {
+    if (!isObject(current)) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,360 @@
+/**
+ * Cache simulation
+ *
+ * Replays recorded queries and mutations through a cache config with the
+ * edge's semantics: cache keys and scope from `computeCacheKey`, maxAge,
+ * staleWhileRevalidate and staleIfError windows, and invalidation patterns
+ * matched against surrogate keys.
+ */
+
+import type {
+  AnalyzedSchema,
+  CachePolicy,
+  OrionCacheConfig,
+  SimulationComparison,
+  SimulationEvent,
+  SimulationReport,
+  TypeSimulationStats,
+} from "../types.js";
+import type { ExecutableDocumentNode } from "../operations/ast.js";
+
+import { computeCacheKey, type CacheKeyOptions } from "../cache-keys/cache-key.js";
+import { extractSurrogateKeys, surrogateKeyMatches } from "../cache-keys/surrogate-keys.js";
+import { analyzeOperationDocuments } from "../operations/analyzer.js";
+import { parseOperationDocument } from "../operations/parser.js";
+import { selectOperation } from "../operations/printer.js";
+import { resolveInvalidations } from "./invalidation.js";
+
+/**
+ * Options for cache simulation (vary and identity headers for cache keys)
+ */
+export type SimulationOptions = CacheKeyOptions;
+
+interface CacheEntry {
+  storedAt: number;
+  policy: CachePolicy;
+  keys: string[];
+  types: string[];
+
+  /**
+   * Keys are bare type names (no response was recorded), so any keyed or
+   * list pattern for one of the types may cover the entry
+   */
+  typesOnly: boolean;
+}
+
+/**
+ * A change to a type's data; `key` is the changed instance, or null when
+ * the mutation's response didn't identify it
+ */
+interface DataChange {
+  at: number;
+  key: string | null;
+}
+
+/**
+ * Replay events through a config and report how the cache would behave.
+ *
+ * Events are replayed in timestamp order. A stored response is served
+ * fresh until maxAge, then stale while revalidating (the revalidation is
+ * an origin request that refreshes the entry) or, when the origin errors,
+ * stale if error. Mutations purge entries whose surrogate keys match the
+ * config's invalidation patterns for them.
+ *
+ * Staleness is measured against the data changes mutations actually make:
+ * the instances in their responses, else the types the schema analysis
+ * says they affect. A served response is outdated when its data changed
+ * after it was stored.
+ *
+ * @param events - Recorded requests, with origin responses for surrogate keys
+ * @param config - Cache config to simulate
+ * @param schema - Analyzed schema for policies, entity keys and mutation impact
+ * @param options - Vary and identity headers
+ */
+export function simulateCache(
+  events: SimulationEvent[],
+  config: OrionCacheConfig,
+  schema: AnalyzedSchema,
+  options: SimulationOptions = {}
+): SimulationReport {
+  const documents = new Map<string, ExecutableDocumentNode>();
+  const parse = (query: string) => {
+    let document = documents.get(query);
+    if (!document) {
+      document = parseOperationDocument(query, "request");
+      documents.set(query, document);
+    }
+    return document;
+  };
+
+  const cache = new Map<string, CacheEntry>();
+  const changes = new Map<string, DataChange[]>();
+  const types = new Map<string, TypeSimulationStats>();
+  const report = {
+    requests: 0,
+    mutations: 0,
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    bypassed: 0,
+    errors: 0,
+    originRequests: 0,
+    outdated: 0,
+    purged: 0,
+  };
+
+  const ordered = events
+    .map((event, index) => ({ event, index, at: toTime(event.timestamp, index) }))
+    .sort((a, b) => a.at - b.at || a.index - b.index);
+
+  for (const { event, index, at } of ordered) {
+    const document = parse(event.query);
+    const kind = operationKind(document, event, index);
+
+    if (kind === "mutation") {
+      report.mutations++;
+      const { fields, patterns } = resolveInvalidations(event, event.response, config);
+
+      for (const [key, entry] of cache) {
+        if (patterns.some((p) => entryMatches(entry, p))) {
+          cache.delete(key);
+          report.purged++;
+        }
+      }
+
+      for (const [type, change] of mutationChanges(event, fields, at, schema)) {
+        const list = changes.get(type) ?? [];
+        list.push(change);
+        changes.set(type, list);
+      }
+      continue;
+    }
+    if (kind !== "query") continue;
+
+    report.requests++;
+    const cacheKey = computeCacheKey(event, config, schema, options);
+    const served = (entry: CacheEntry) => {
+      const staleness = outdatedFor(entry, at, changes);
+      if (staleness.size > 0) report.outdated++;
+      for (const type of entry.types) {
+        const stats = typeStats(types, type);
+        stats.hits++;
+        stats.worstStaleness = Math.max(stats.worstStaleness, staleness.get(type) ?? 0);
+      }
+    };
+
+    const entry = cache.get(cacheKey.key);
+    const responseTags = () => tagsOf(event, document, schema);
+
+    if (!cacheKey.cacheable) {
+      report.bypassed++;
+      report.originRequests++;
+      if (event.originError) report.errors++;
+      for (const type of responseTags().types) typeStats(types, type).requests++;
+      continue;
+    }
+
+    if (entry) {
+      const age = (at - entry.storedAt) / 1000;
+      const { maxAge, staleWhileRevalidate, staleIfError } = entry.policy;
+      const usable =
+        age < maxAge ||
+        (event.originError ? age < maxAge + staleIfError : age < maxAge + staleWhileRevalidate);
+
+      if (usable) {
+        for (const type of entry.types) typeStats(types, type).requests++;
+        if (age < maxAge) {
+          report.hits++;
+        } else {
+          report.staleHits++;
+        }
+        served(entry);
+
+        // Stale while revalidate: the background fetch refreshes the entry
+        if (age >= maxAge && !event.originError) {
+          report.originRequests++;
+          cache.set(cacheKey.key, { storedAt: at, policy: cacheKey.policy!, ...responseTags() });
+        }
+        continue;
+      }
+    }
+
+    report.originRequests++;
+    const tags = responseTags();
+    for (const type of tags.types) typeStats(types, type).requests++;
+    if (event.originError) {
+      report.errors++;
+      continue;
+    }
+    report.misses++;
+    cache.set(cacheKey.key, { storedAt: at, policy: cacheKey.policy!, ...tags });
+  }
+
+  const requests = report.requests;
+  const ratio = (value: number) => (requests ? Math.round((value / requests) * 1000) / 1000 : 0);
+  const servedFromCache = report.hits + report.staleHits;
+
+  return {
+    requests,
+    mutations: report.mutations,
+    hits: report.hits,
+    staleHits: report.staleHits,
+    misses: report.misses,
+    bypassed: report.bypassed,
+    errors: report.errors,
+    originRequests: report.originRequests,
+    hitRatio: ratio(servedFromCache),
+    staleRatio: ratio(report.staleHits),
+    outdatedRatio: servedFromCache ? Math.round((report.outdated / servedFromCache) * 1000) / 1000 : 0,
+    originReduction: ratio(requests - report.originRequests),
+    purged: report.purged,
+    types: [...types.values()].sort((a, b) => b.requests - a.requests || a.type.localeCompare(b.type)),
+  };
+}
+
+/**
+ * Replay the same events through two configs
+ */
+export function compareConfigs(
+  events: SimulationEvent[],
+  baseline: OrionCacheConfig,
+  candidate: OrionCacheConfig,
+  schema: AnalyzedSchema,
+  options: SimulationOptions = {}
+): SimulationComparison {
+  const a = simulateCache(events, baseline, schema, options);
+  const b = simulateCache(events, candidate, schema, options);
+  const diff = (x: number, y: number) => Math.round((y - x) * 1000) / 1000;
+
+  const worst = (report: SimulationReport) =>
+    new Map(report.types.map((t) => [t.type, t.worstStaleness]));
+  const worstA = worst(a);
+  const worstB = worst(b);
+  const typeNames = [...new Set([...worstA.keys(), ...worstB.keys()])].sort();
+
+  return {
+    baseline: a,
+    candidate: b,
+    delta: {
+      hitRatio: diff(a.hitRatio, b.hitRatio),
+      staleRatio: diff(a.staleRatio, b.staleRatio),
+      outdatedRatio: diff(a.outdatedRatio, b.outdatedRatio),
+      originReduction: diff(a.originReduction, b.originReduction),
+    },
+    types: typeNames.map((type) => ({
+      type,
+      baseline: worstA.get(type) ?? 0,
+      candidate: worstB.get(type) ?? 0,
+    })),
+  };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Surrogate keys and types of a query's response. Without a recorded
+ * response, the types the operation selects stand in as type tags.
+ */
+function tagsOf(
+  event: SimulationEvent,
+  document: ExecutableDocumentNode,
+  schema: AnalyzedSchema
+): Pick<CacheEntry, "keys" | "types" | "typesOnly"> {
+  if (event.response !== undefined) {
+    const keys = extractSurrogateKeys(event.response, schema);
+    return { keys, types: keys.filter((k) => !k.includes(":")), typesOnly: false };
+  }
+
+  const operation = selectOperation(document, event.operationName);
+  const analysis = analyzeOperationDocuments([document], schema, {
+    variables: event.variables ?? {},
+  }).find((a) => a.name === operation.name);
+  const types = analysis?.types ?? [];
+  return { keys: types, types, typesOnly: true };
+}
+
+/**
+ * Whether an invalidation pattern purges an entry. Without recorded
+ * instances, a pattern for any instance or list of a type the entry holds
+ * purges it, since the entry may contain that instance.
+ */
+function entryMatches(entry: CacheEntry, pattern: string): boolean {
+  if (entry.typesOnly) {
+    const colon = pattern.indexOf(":");
+    return entry.types.includes(colon === -1 ? pattern : pattern.slice(0, colon));
+  }
+  return entry.keys.some((key) => surrogateKeyMatches(pattern, key));
+}
+
+/**
+ * Data a mutation changed, by type: the instances in its response, else
+ * the types the schema analysis says its root fields affect
+ */
+function mutationChanges(
+  event: SimulationEvent,
+  fields: string[],
+  at: number,
+  schema: AnalyzedSchema
+): Array<[string, DataChange]> {
+  const instances =
+    event.response !== undefined
+      ? extractSurrogateKeys(event.response, schema).filter((k) => k.includes(":") && !k.endsWith(":list"))
+      : [];
+  if (instances.length > 0) {
+    return instances.map((key) => [key.slice(0, key.indexOf(":")), { at, key }]);
+  }
+
+  const affected = schema.mutations
+    .filter((m) => fields.includes(m.name))
+    .flatMap((m) => m.affectedTypes);
+  return [...new Set(affected)].map((type) => [type, { at, key: null }]);
+}
+
+/**
+ * Seconds each of an entry's types has been outdated at `at`: since the
+ * earliest change after the entry was stored that touches its data
+ */
+function outdatedFor(entry: CacheEntry, at: number, changes: Map<string, DataChange[]>): Map<string, number> {
+  const staleness = new Map<string, number>();
+  for (const type of entry.types) {
+    const list = changes.get(type) ?? [];
+    let earliest: number | null = null;
+    for (let i = list.length - 1; i >= 0 && list[i]!.at > entry.storedAt; i--) {
+      const change = list[i]!;
+      if (change.key === null || entry.typesOnly || entry.keys.includes(change.key)) {
+        earliest = change.at;
+      }
+    }
+    if (earliest !== null) {
+      staleness.set(type, (at - earliest) / 1000);
+    }
+  }
+  return staleness;
+}
+
+function operationKind(document: ExecutableDocumentNode, event: SimulationEvent, index: number) {
+  try {
+    return selectOperation(document, event.operationName).operation;
+  } catch (error) {
+    throw new Error(`Event ${index}: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+function typeStats(types: Map<string, TypeSimulationStats>, type: string): TypeSimulationStats {
+  let stats = types.get(type);
+  if (!stats) {
+    stats = { type, requests: 0, hits: 0, worstStaleness: 0 };
+    types.set(type, stats);
+  }
+  return stats;
+}
+
+function toTime(timestamp: number | string, index: number): number {
+  const time = typeof timestamp === "number" ? timestamp : Date.parse(timestamp);
+  if (!Number.isFinite(time)) {
+    throw new Error(`Event ${index}: invalid timestamp "${timestamp}"`);
+  }
+  return time;
+}
@@ -29,6 +29,12 @@ export interface IntrospectionType {
   interfaces: IntrospectionTypeRef[] | null;
   enumValues: IntrospectionEnumValue[] | null;
   possibleTypes: IntrospectionTypeRef[] | null;
+
+  /** Scalar specification URL (servers supporting `specifiedByURL`) */
+  specifiedByURL?: string | null;
+
+  /** Whether an input object is a OneOf input (servers supporting `isOneOf`) */
+  isOneOf?: boolean;
 }
 
 export type TypeKind =
@@ -55,6 +61,10 @@ export interface IntrospectionInputValue {
   description: string | null;
   type: IntrospectionTypeRef;
   defaultValue: string | null;
+
+  /** Present when the server supports deprecating arguments and input fields */
+  isDeprecated?: boolean;
+  deprecationReason?: string | null;
 }
 
 export interface IntrospectionTypeRef {
@@ -75,6 +85,9 @@ export interface IntrospectionDirective {
   description: string | null;
   locations: string[];
   args: IntrospectionInputValue[];
+
+  /** Present when the server supports `isRepeatable` */
+  isRepeatable?: boolean;
 }
 
 // =============================================================================
@@ -91,11 +104,32 @@ export interface AnalyzedSchema {
   /** Mutation operations */
   mutations: OperationType[];
 
+  /** Subscription operations */
+  subscriptions: OperationType[];
+
+  /** Names of the root operation types */
+  rootTypes: RootTypeNames;
+
+  /** Interfaces and unions with their concrete member types */
+  abstractTypes: AbstractType[];
+
   /** Relationships between types */
   relationships: TypeRelationship[];
 
   /** Raw type map for reference */
   typeMap: Map<string, IntrospectionType>;
+
+  /** Observed request traffic, when operation logs were applied */
+  traffic?: TrafficProfile;
+}
+
+/**
+ * Root operation type names, null when the schema has no such root
+ */
+export interface RootTypeNames {
+  query: string | null;
+  mutation: string | null;
+  subscription: string | null;
 }
 
 export interface EntityType {
@@ -105,9 +139,27 @@ export interface EntityType {
   /** Type description from schema */
   description: string | null;
 
-  /** Whether this type has an ID field */
+  /** Whether this type has an identity key (ID field, configured key, federation key, ...) */
   hasId: boolean;
 
+  /** Field paths identifying an instance (e.g., ["id"], ["sku"], ["organization.id", "code"]) */
+  keyFields: string[];
+
+  /** How the key was chosen, or null when the type has no key */
+  keySource: EntityKeySource | null;
+
+  /** Federation subgraph that owns this type, if known */
+  subgraph: string | null;
+
+  /** Federation metadata, when analyzed with subgraph or supergraph SDL */
+  federation?: FederationTypeInfo;
+
+  /** @cacheControl hints, when analyzed with SDL that declares them */
+  cacheControl?: CacheControlInfo;
+
+  /** For list wrappers (Relay connections, edges, page objects): the list they hold */
+  pagination: PaginationInfo | null;
+
   /** Field names */
   fields: FieldInfo[];
 
@@ -121,12 +173,108 @@ export interface EntityType {
   characteristics: EntityCharacteristics;
 }
 
+/**
+ * Where an entity's key came from:
+ * - custom: the identity resolver callback
+ * - configured: an explicit per-type key
+ * - federation: a federation @key directive
+ * - node-interface: the `id` of a Relay Node implementer
+ * - id-field: a configured identity field name (default id, _id, ID)
+ * - id-scalar: the first non-null ID field
+ */
+export type EntityKeySource =
+  | "custom"
+  | "configured"
+  | "federation"
+  | "node-interface"
+  | "id-field"
+  | "id-scalar";
+
+export type CacheScope = "public" | "private";
+
+/** A single @cacheControl(maxAge:, scope:, inheritMaxAge:) hint */
+export interface CacheHint {
+  maxAge?: number;
+  scope?: CacheScope;
+  inheritMaxAge?: boolean;
+}
+
+export interface CacheControlInfo {
+  /** Hint on the type itself */
+  type: CacheHint | null;
+
+  /** Hints on the type's fields, by field name */
+  fields: Record<string, CacheHint>;
+
+  /** Effective maxAge after inheritance, or null if no hint sets one */
+  maxAge: number | null;
+
+  /** Effective scope (private if any applicable hint is private), or null if unset */
+  scope: CacheScope | null;
+}
+
+export interface FederationKey {
+  /** Raw field set from @key (e.g., "sku", "organization { id } code") */
+  fields: string;
+
+  /** Leaf field paths of the field set (e.g., ["organization.id", "code"]) */
+  fieldPaths: string[];
+
+  /** Whether other subgraphs can resolve the entity by this key */
+  resolvable: boolean;
+
+  /** Subgraph declaring the key, if known */
+  subgraph: string | null;
+}
+
+export interface FederationTypeInfo {
+  /** @key directives across all subgraphs */
+  keys: FederationKey[];
+
+  /** Subgraph that originates the type */
+  owner: string | null;
+
+  /** All subgraphs that contribute to the type */
+  subgraphs: string[];
+
+  /** Fields marked @external (resolved by another subgraph) */
+  externalFields: string[];
+
+  /** Fields with @requires, mapped to the field set they require */
+  requiresFields: Record<string, string>;
+
+  /** Fields that may be resolved by several subgraphs (@shareable) */
+  shareableFields: string[];
+}
+
+export interface AbstractType {
+  /** Type name (e.g., "Node", "SearchResult") */
+  name: string;
+
+  kind: "INTERFACE" | "UNION";
+
+  /** Type description from schema */
+  description: string | null;
+
+  /** Concrete object types (union members or interface implementers) */
+  possibleTypes: string[];
+
+  /** Interface fields (empty for unions) */
+  fields: FieldInfo[];
+
+  /** Types with fields returning this type */
+  referencedBy: string[];
+}
+
 export interface FieldInfo {
   name: string;
   typeName: string;
   isNonNull: boolean;
   isList: boolean;
   description: string | null;
+
+  /** Traits this field carries on its own (e.g. isVolatile for `price`, hasSensitiveFields for `email`) */
+  traits?: ClassifiedTrait[];
 }
 
 export interface EntityCharacteristics {
@@ -142,8 +290,129 @@ export interface EntityCharacteristics {
   /** Contains sensitive fields */
   hasSensitiveFields: boolean;
 
-  /** Is a root query/mutation type */
+  /** Is a root query/mutation/subscription type */
   isRootType: boolean;
+
+  /** Streamed by a subscription, so clients expect real-time data */
+  hasSubscription: boolean;
+
+  /** Confidence and evidence behind each classified trait */
+  scores: Record<ClassifiedTrait, TraitScore>;
+}
+
+/**
+ * A schema summary with its estimated size
+ */
+export interface SchemaSummary {
+  text: string;
+
+  /** Estimated tokens, from the characters-per-token ratio */
+  estimatedTokens: number;
+
+  /** What a token budget left out (all empty without a budget) */
+  omitted: SummaryOmissions;
+}
+
+export interface SummaryOmissions {
+  /** Types collapsed into aggregates instead of shown in full */
+  types: string[];
+  queries: string[];
+  mutations: string[];
+  subscriptions: string[];
+
+  /** Relationship lines (one per field) dropped */
+  relationships: number;
+}
+
+export interface TypeImportance {
+  name: string;
+
+  /** Higher is more important to summarize in full */
+  score: number;
+}
+
+/**
+ * AnalyzedSchema without its typeMap, which JSON cannot hold; the types are
+ * stored as an array instead
+ */
+export type SerializedAnalysisData = Omit<AnalyzedSchema, "typeMap"> & {
+  types: IntrospectionType[];
+};
+
+/**
+ * Versioned envelope written by serializeAnalysis
+ */
+export interface SerializedAnalysis {
+  /** Marks the payload as a serialized analysis */
+  format: "orion-analysis";
+
+  /** Envelope version; older versions are migrated on load */
+  version: number;
+
+  /** Analyzer version that produced the analysis */
+  analyzerVersion: string;
+
+  /** SHA-256 of the schema's types, empty when unknown */
+  fingerprint: string;
+
+  /** When the analysis was serialized (ISO 8601) */
+  createdAt: string;
+
+  analysis: SerializedAnalysisData;
+}
+
+// =============================================================================
+// CLASSIFIER TYPES
+// =============================================================================
+
+/** Traits of EntityCharacteristics decided by the classifier */
+export type ClassifiedTrait = "isVolatile" | "isUserSpecific" | "hasSensitiveFields" | "isCollection";
+
+/**
+ * What a classifier rule looks at:
+ * - regex: field name matches the pattern
+ * - token: field name, split on camelCase/snake_case, contains the token
+ *   sequence (e.g. "lastSeen" matches `lastSeenAt` and `last_seen`, not
+ *   `lastSeenBy` if position is "end")
+ * - typeName: the entity's type name matches
+ * - scalar: the field's named type is one of these (e.g. "EmailAddress")
+ * - description: the field's or type's description contains a keyword
+ */
+export type ClassifierMatcher =
+  | { kind: "regex"; pattern: RegExp }
+  | { kind: "token"; tokens: string[]; position?: "any" | "start" | "end" }
+  | { kind: "typeName"; pattern: RegExp }
+  | { kind: "scalar"; types: string[] }
+  | { kind: "description"; keywords: string[] };
+
+export interface ClassifierRule {
+  /** Identifier reported in evidence (e.g., "volatile:timestamps") */
+  id: string;
+
+  /** Trait the rule is evidence for */
+  trait: ClassifiedTrait;
+
+  match: ClassifierMatcher;
+
+  /** Strength of the evidence, from 0 to 1 */
+  weight: number;
+}
+
+export interface TraitEvidence {
+  /** Rule that matched */
+  rule: string;
+
+  /** Field that triggered it, or null for type-level matches */
+  field: string | null;
+
+  weight: number;
+}
+
+export interface TraitScore {
+  /** Combined confidence from 0 to 1 (1 - product of (1 - weight) over evidence) */
+  confidence: number;
+
+  evidence: TraitEvidence[];
 }
 
 export interface OperationType {
@@ -162,8 +431,82 @@ export interface OperationType {
   /** Argument names and types */
   arguments: ArgumentInfo[];
 
-  /** For mutations: which types are likely affected */
+  /**
+   * For mutations: which types are likely affected (confidence at least 0.5).
+   * For subscriptions: which types they stream.
+   */
   affectedTypes: string[];
+
+  /** For mutations and subscriptions: every inferred affected type with its confidence and reason */
+  affectedTypeDetails: AffectedType[];
+
+  /** How the operation paginates, if it returns a paginated list */
+  pagination: PaginationInfo | null;
+
+  /** For queries: how to build the cache key from the arguments */
+  cacheKey: CacheKeyComposition | null;
+
+  /** Estimated worst-case cost of selecting everything below the operation */
+  cost: OperationCost | null;
+}
+
+export interface OperationCost {
+  /** Deepest field path, counting the root field (e.g. `user { posts { title } }` is 3) */
+  depth: number;
+
+  /** Most fields on a single selected type */
+  breadth: number;
+
+  /** Objects returned, with nested counts multiplied by list sizes */
+  nodeCount: number;
+
+  /** Sum of field costs, multiplied by list sizes */
+  cost: number;
+}
+
+/**
+ * Why a mutation is thought to affect a type:
+ * - return-type: the mutation returns it (directly or as a union/interface member)
+ * - payload-field: a field of the returned payload wrapper returns it
+ * - mutation-name: the mutation name names it (e.g. deletePosts, update_users_by_pk)
+ * - input-type: an argument's input type is named after it (e.g. UpdateUserInput)
+ * - related-name: the name mentions it as a target (e.g. Cart in addItemToCart)
+ */
+export type AffectedTypeReason =
+  | "return-type"
+  | "payload-field"
+  | "mutation-name"
+  | "input-type"
+  | "related-name";
+
+export interface AffectedType {
+  /** Affected type name */
+  type: string;
+
+  /** Confidence from 0 to 1; independent evidence reinforces */
+  confidence: number;
+
+  /** Strongest evidence */
+  reason: AffectedTypeReason;
+
+  /** Human-readable description of each piece of evidence */
+  details: string[];
+}
+
+export type PaginationStyle = "relay" | "offset";
+
+export interface PaginationInfo {
+  /** Relay cursor connection or offset/limit pagination */
+  style: PaginationStyle;
+
+  /** Type of the listed items (e.g., "Post" for a PostConnection) */
+  nodeType: string;
+
+  /** Wrapper type (connection, edge or page object), or null for a plain list */
+  connectionType: string | null;
+
+  /** Pagination arguments the operation accepts (e.g., ["first", "after"]) */
+  arguments: string[];
 }
 
 export interface ArgumentInfo {
@@ -171,6 +514,57 @@ export interface ArgumentInfo {
   typeName: string;
   isRequired: boolean;
   description: string | null;
+
+  /** What the argument does to the result */
+  role: ArgumentRole;
+
+  /** Takes so many distinct values (free text, timestamps, session tokens) that cached results are rarely reused */
+  highCardinality: boolean;
+}
+
+/**
+ * What an argument does to an operation's result:
+ * - identity: selects an entity (id, slug, sku)
+ * - pagination: selects a page (first, after, offset, limit)
+ * - filter: narrows or orders the result (where, status, orderBy, date ranges)
+ * - personalization: tailors the result to a viewer or session
+ * - search: free-text query
+ * - localization: locale, language, currency, region
+ */
+export type ArgumentRole =
+  | "identity"
+  | "pagination"
+  | "filter"
+  | "personalization"
+  | "search"
+  | "localization";
+
+export interface CacheKeyComposition {
+  /** Arguments to include in the cache key, ordered identity, localization, filter, search, pagination, personalization */
+  arguments: string[];
+
+  /** A personalization argument is present, so entries must be per user (or private) */
+  perUser: boolean;
+
+  /** Arguments that make results too high-cardinality to cache usefully */
+  highCardinality: string[];
+
+  /** False when a required argument is high-cardinality, so nearly every request would miss */
+  cacheable: boolean;
+}
+
+export interface EmbeddingPath {
+  /** Type whose cached responses embed the target type */
+  type: string;
+
+  /** Relationship path from this type down to the target (e.g., ["User.posts", "Post.comments"]) */
+  path: string[];
+
+  /** Number of relationship hops */
+  depth: number;
+
+  /** Target type the path leads to, when searching from several */
+  source: string;
 }
 
 export interface TypeRelationship {
@@ -186,6 +580,9 @@ export interface TypeRelationship {
   /** Whether it's a list relationship (one-to-many) */
   isList: boolean;
 
+  /** Interface or union the field returns, when the relationship fans out through one */
+  via?: string;
+
   /** Relationship direction */
   direction: "outgoing" | "incoming";
 }
@@ -240,8 +637,11 @@ export interface GeneratedCacheRule {
   /** Types this rule applies to */
   types: string[];
 
-  /** Max age in seconds */
-  maxAge: number;
+  /** Field selectors this rule applies to (e.g., "Product.price") */
+  fields?: string[];
+
+  /** Max age in seconds (unset for passthrough rules) */
+  maxAge?: number;
 
   /** Stale-while-revalidate in seconds */
   staleWhileRevalidate?: number;
@@ -273,10 +673,39 @@ export interface OrionCacheConfig {
   };
   rules: OrionCacheRule[];
   invalidations: Record<string, string[]>;
+
+  /** Why transitive invalidation patterns were added, per mutation */
+  invalidationPaths?: Record<string, InvalidationAnnotation[]>;
+}
+
+/**
+ * Resolved cache policy for a field or a whole response
+ */
+export interface CachePolicy {
+  maxAge: number;
+  staleWhileRevalidate: number;
+  staleIfError: number;
+  scope: CacheScope;
+  passthrough: boolean;
+}
+
+export interface InvalidationAnnotation {
+  /** Pattern added for a type that embeds a mutated type (e.g., "Post:*") */
+  pattern: string;
+
+  /** Mutated type that caused it */
+  source: string;
+
+  /** Relationship path from the embedding type to the mutated type */
+  path: string[];
 }
 
 export interface OrionCacheRule {
   types: string[];
+
+  /** "Type.field" selectors; a field rule takes precedence over its type's rule */
+  fields?: string[];
+
   maxAge?: number;
   staleWhileRevalidate?: number;
   staleIfError?: number;
@@ -284,6 +713,507 @@ export interface OrionCacheRule {
   passthrough?: boolean;
 }
 
+// =============================================================================
+// CONFIG VALIDATION TYPES
+// =============================================================================
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+export type ConfigDiagnosticType =
+  | "INVALID_STRUCTURE"
+  | "EMPTY_RULE"
+  | "UNKNOWN_TYPE"
+  | "UNKNOWN_FIELD"
+  | "CONFLICTING_RULES"
+  | "DUPLICATE_RULE"
+  | "PASSTHROUGH_WITH_TTL"
+  | "SENSITIVE_TYPE_PUBLIC"
+  | "USER_SPECIFIC_TYPE_PUBLIC"
+  | "UNKNOWN_MUTATION"
+  | "UNKNOWN_PATTERN_FIELD";
+
+export interface ConfigDiagnostic {
+  /** What kind of problem this is */
+  type: ConfigDiagnosticType;
+
+  severity: DiagnosticSeverity;
+
+  /** JSON path of the offending value (e.g., "$.rules[2].maxAge") */
+  path: string;
+
+  /** Human-readable description */
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  /** Whether there are no errors (warnings and info are allowed) */
+  valid: boolean;
+
+  diagnostics: ConfigDiagnostic[];
+
+  /** Number of diagnostics per severity */
+  summary: Record<DiagnosticSeverity, number>;
+}
+
+// =============================================================================
+// SCHEMA DIFF TYPES
+// =============================================================================
+
+/** How a schema change affects existing clients */
+export type ChangeSeverity = "breaking" | "dangerous" | "safe";
+
+export type SchemaChangeType =
+  | "TYPE_ADDED"
+  | "TYPE_REMOVED"
+  | "TYPE_KIND_CHANGED"
+  | "FIELD_ADDED"
+  | "FIELD_REMOVED"
+  | "FIELD_TYPE_CHANGED"
+  | "FIELD_DEPRECATED"
+  | "FIELD_UNDEPRECATED"
+  | "ARGUMENT_ADDED"
+  | "ARGUMENT_REMOVED"
+  | "ARGUMENT_TYPE_CHANGED"
+  | "ARGUMENT_DEFAULT_CHANGED"
+  | "INPUT_FIELD_ADDED"
+  | "INPUT_FIELD_REMOVED"
+  | "INPUT_FIELD_TYPE_CHANGED"
+  | "ENUM_VALUE_ADDED"
+  | "ENUM_VALUE_REMOVED"
+  | "UNION_MEMBER_ADDED"
+  | "UNION_MEMBER_REMOVED"
+  | "INTERFACE_ADDED"
+  | "INTERFACE_REMOVED"
+  | "MUTATION_ADDED"
+  | "MUTATION_REMOVED";
+
+export interface SchemaChange {
+  /** What kind of change this is */
+  type: SchemaChangeType;
+
+  /** Impact on existing clients */
+  severity: ChangeSeverity;
+
+  /** Schema coordinate of the change (e.g., "User.email", "Query.posts(first:)") */
+  path: string;
+
+  /** Human-readable description */
+  message: string;
+}
+
+export type CacheImpactType =
+  | "UNCOVERED_ENTITY"
+  | "SENSITIVE_FIELD_ADDED"
+  | "MUTATION_AFFECTED_TYPES_CHANGED"
+  | "ENTITY_ID_REMOVED";
+
+export interface CacheImpact {
+  /** What kind of cache impact this is */
+  type: CacheImpactType;
+
+  /** How urgently the cache config needs attention */
+  severity: ChangeSeverity;
+
+  /** Type (or mutation, for MUTATION_AFFECTED_TYPES_CHANGED) the impact concerns */
+  target: string;
+
+  /** Human-readable description */
+  message: string;
+}
+
+export interface SchemaDiff {
+  /** Structural changes between the two schemas */
+  changes: SchemaChange[];
+
+  /** Changes that affect the cache config */
+  cacheImpacts: CacheImpact[];
+
+  /** Whether any change is breaking */
+  hasBreakingChanges: boolean;
+
+  /** Number of structural changes per severity */
+  summary: Record<ChangeSeverity, number>;
+}
+
+// =============================================================================
+// GRAPH EXPORT TYPES
+// =============================================================================
+
+export type GraphNodeKind = "entity" | "interface" | "union" | "mutation";
+
+/**
+ * Characteristic tags on entity nodes, used for colors and classes
+ */
+export type GraphNodeTag =
+  | "sensitive"
+  | "user-specific"
+  | "real-time"
+  | "volatile"
+  | "collection"
+  | "stable";
+
+export interface GraphNode {
+  /** Type name, or "Mutation.<name>" for mutations */
+  id: string;
+
+  label: string;
+
+  kind: GraphNodeKind;
+
+  /** Entity characteristics (empty for abstract types and mutations) */
+  tags: GraphNodeTag[];
+}
+
+/**
+ * Graph edges:
+ * - relationship: a field referencing another type
+ * - member: an interface or union to one of its possible types
+ * - invalidates: a mutation to a type it affects
+ */
+export type GraphEdgeKind = "relationship" | "member" | "invalidates";
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: GraphEdgeKind;
+
+  /** Field name for relationships, confidence for invalidations */
+  label: string;
+
+  /** Relationships only: whether the field returns a list */
+  cardinality?: "one" | "many";
+}
+
+export interface GraphGroup {
+  id: string;
+
+  /** Cache policy of the rule, e.g. "maxAge=60, swr=30, private" */
+  label: string;
+
+  /** Nodes the rule covers */
+  nodes: string[];
+}
+
+export interface SchemaGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+
+  /** Cache rule groupings, when exported with a config */
+  groups: GraphGroup[];
+}
+
+// =============================================================================
+// OPERATION DOCUMENT TYPES
+// =============================================================================
+
+export type ExecutableOperationKind = "query" | "mutation" | "subscription";
+
+/**
+ * What a client operation touches and how a cache config treats it
+ */
+export interface OperationAnalysis {
+  /** Operation name, or null for anonymous operations */
+  name: string | null;
+
+  operation: ExecutableOperationKind;
+
+  /** Document the operation came from (file path or source name) */
+  source: string;
+
+  /** Types selected, including interface and union members (root types excluded) */
+  types: string[];
+
+  /** "Type.field" coordinates selected; fields on abstract types are also listed per member */
+  fields: string[];
+
+  /** Config rules that apply to the selected fields, in config order */
+  rules: OrionCacheRule[];
+
+  /** Effective policy of the response (queries analyzed with a config only) */
+  policy: CachePolicy | null;
+
+  /** Mutations that invalidate the response (queries only) */
+  invalidatedBy: string[];
+
+  /** Unknown fields, types and fragments, and fragment cycles */
+  warnings: string[];
+}
+
+// =============================================================================
+// TRAFFIC TYPES
+// =============================================================================
+
+/**
+ * One request from an operation log
+ */
+export interface OperationLogEntry {
+  /** Client operation name, null for anonymous operations */
+  operationName: string | null;
+
+  /** Hash of the query text */
+  queryHash: string;
+
+  /** Hash of the variables, null when the request had none */
+  variablesHash: string | null;
+
+  latencyMs: number;
+
+  /** Response size in bytes */
+  responseSize: number;
+
+  /** HTTP status */
+  status: number;
+
+  /** Request time in epoch milliseconds, if logged */
+  timestamp: number | null;
+}
+
+/**
+ * Observed traffic of one client operation
+ */
+export interface OperationTraffic {
+  /** Client operation name, or "#<queryHash>" for anonymous operations */
+  name: string;
+
+  /** Operation kind, null when the operation couldn't be matched to the schema */
+  operation: ExecutableOperationKind | null;
+
+  requests: number;
+
+  /** Fraction of all requests */
+  share: number;
+
+  /** Null when the log has no timestamps */
+  requestsPerMinute: number | null;
+
+  /** Distinct variable hashes seen */
+  distinctVariables: number;
+
+  /** Distinct query and variable hash combinations, i.e. distinct cache keys */
+  distinctKeys: number;
+
+  /** Fraction of requests with an HTTP error status */
+  errorRate: number;
+
+  avgLatencyMs: number;
+  p95LatencyMs: number;
+  avgResponseSize: number;
+
+  /** Root fields the operation selects (e.g., ["product"]) */
+  rootFields: string[];
+
+  /** Types the operation touches */
+  types: string[];
+
+  /** "Type.field" coordinates or type names its response policy depends on */
+  selectors: string[];
+
+  /** Whether the schema analysis expects it to be cacheable */
+  cacheable: boolean;
+}
+
+export interface TypeTraffic {
+  type: string;
+
+  /** Requests whose responses contain the type */
+  requests: number;
+
+  /** Fraction of all requests */
+  share: number;
+}
+
+/**
+ * Request traffic folded into an analysis
+ */
+export interface TrafficProfile {
+  totalRequests: number;
+
+  /** Seconds between the first and last logged request, null without timestamps */
+  windowSeconds: number | null;
+
+  /** By requests, busiest first */
+  operations: OperationTraffic[];
+
+  /** By requests, busiest first */
+  types: TypeTraffic[];
+
+  /** Fraction of requests to cacheable operations */
+  cacheableShare: number;
+
+  /** Fraction of requests repeating an earlier cache key of a cacheable operation (hit ratio upper bound) */
+  reuseShare: number;
+
+  /** Logged operation names that matched nothing in the schema */
+  unmatched: string[];
+}
+
+/**
+ * How much of the observed traffic a cache config would cache
+ */
+export interface TrafficCoverage {
+  /** Fraction of requests whose response policy is cacheable */
+  cacheableShare: number;
+
+  /** Fraction of requests that could be served from cache (hit ratio upper bound) */
+  reuseShare: number;
+
+  /** Operations the config doesn't cache, busiest first */
+  uncached: string[];
+}
+
+// =============================================================================
+// CACHE KEY TYPES
+// =============================================================================
+
+/**
+ * A GraphQL request as the edge receives it
+ */
+export interface CacheKeyRequest {
+  query: string;
+  operationName?: string | null;
+  variables?: Record<string, unknown> | null;
+
+  /** Request headers; names are matched case-insensitively */
+  headers?: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Cache key of a request and the inputs it was built from
+ */
+export interface CacheKey {
+  /** "orion:" followed by the sha256 of the inputs below */
+  key: string;
+
+  operationName: string | null;
+
+  /** Canonical operation text */
+  query: string;
+
+  /** Declared variables as canonical JSON (sorted keys) */
+  variables: string;
+
+  scope: CacheScope;
+
+  /** For private responses: sha256 of the identity header value */
+  identity: string | null;
+
+  /** Vary header values by lowercase header name ("" when absent) */
+  vary: Record<string, string>;
+
+  /** Effective policy of the operation (null for mutations and subscriptions) */
+  policy: CachePolicy | null;
+
+  /** Whether the edge stores the response */
+  cacheable: boolean;
+
+  /** Why the response isn't stored, when it isn't */
+  reason: string | null;
+}
+
+// =============================================================================
+// SIMULATION TYPES
+// =============================================================================
+
+/**
+ * A recorded request replayed through the simulated cache
+ */
+export interface SimulationEvent extends CacheKeyRequest {
+  /** Request time in epoch milliseconds or ISO 8601 */
+  timestamp: number | string;
+
+  /**
+   * Origin response. Queries are tagged with its surrogate keys (without
+   * one, with the types they select, which any pattern for the type
+   * purges); mutations fill "{field}" placeholders in their invalidation
+   * patterns from it.
+   */
+  response?: unknown;
+
+  /** The origin failed at this time (stale-if-error applies) */
+  originError?: boolean;
+}
+
+/**
+ * Per-type outcome of a simulation
+ */
+export interface TypeSimulationStats {
+  type: string;
+
+  /** Query requests whose response contains the type */
+  requests: number;
+
+  /** Served from cache, fresh or stale */
+  hits: number;
+
+  /** Longest time a served response held data a mutation had already changed, in seconds */
+  worstStaleness: number;
+}
+
+/**
+ * Outcome of replaying events through a cache config
+ */
+export interface SimulationReport {
+  /** Query requests replayed */
+  requests: number;
+
+  mutations: number;
+
+  /** Served fresh from cache */
+  hits: number;
+
+  /** Served past maxAge under staleWhileRevalidate or staleIfError */
+  staleHits: number;
+
+  /** Fetched from the origin and stored */
+  misses: number;
+
+  /** Not cacheable under the config (passthrough, private without identity, ...) */
+  bypassed: number;
+
+  /** Requests that failed because the origin errored and nothing usable was cached */
+  errors: number;
+
+  /** Origin requests for queries, including background revalidations */
+  originRequests: number;
+
+  /** (hits + staleHits) / requests */
+  hitRatio: number;
+
+  /** staleHits / requests */
+  staleRatio: number;
+
+  /** Fraction of served responses holding data a mutation had already changed */
+  outdatedRatio: number;
+
+  /** 1 - originRequests / requests */
+  originReduction: number;
+
+  /** Cache entries removed by invalidation patterns */
+  purged: number;
+
+  /** By requests, busiest first */
+  types: TypeSimulationStats[];
+}
+
+/**
+ * Two configs replayed over the same events
+ */
+export interface SimulationComparison {
+  baseline: SimulationReport;
+  candidate: SimulationReport;
+
+  /** Candidate minus baseline for each ratio */
+  delta: {
+    hitRatio: number;
+    staleRatio: number;
+    outdatedRatio: number;
+    originReduction: number;
+  };
+
+  /** Worst staleness per type under each config, in seconds */
+  types: Array<{ type: string; baseline: number; candidate: number }>;
+}
+
 // =============================================================================
 // AI PROVIDER TYPES
 // =============================================================================